@@ -0,0 +1,173 @@
+import type { ContextPreview } from "@/lib/contextPreviewTypes";
+
+const SYSTEM_PART_LABELS = {
+  base: "Base prompt",
+  persona: "Persona",
+  planner: "Planner",
+  reflector: "Reflector",
+  tools: "Tool guidance",
+} as const;
+
+function snippet(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > 120 ? `${line.slice(0, 120)}…` : line || "(empty)";
+}
+
+// Token meter and breakdown of the prompt the next message sends, from
+// POST /api/context/preview.
+export default function ContextPreviewDetails({
+  preview,
+}: {
+  preview: ContextPreview;
+}) {
+  // With the auto budget the reply's reserve is not available to the prompt.
+  const limit = preview.contextWindow - (preview.reservedOutputTokens ?? 0);
+  const share = limit > 0 ? preview.promptTokens / limit : 1;
+  const included = preview.messages.filter((m) => m.included);
+  const dropped = preview.messages.filter(
+    (m) => !m.included && m.source !== "summary"
+  );
+  const historyTokens = included.reduce((a, m) => a + m.tokens, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-slate-400">
+          <span>
+            {preview.promptTokens.toLocaleString()} of{" "}
+            {limit.toLocaleString()} tokens
+            {preview.reservedOutputTokens !== null &&
+              ` (${preview.reservedOutputTokens.toLocaleString()} kept for the reply)`}
+          </span>
+          <span className="text-slate-500">
+            {preview.modelId} • {preview.contextConfig.strategy}
+            {preview.contextConfig.budgetMode === "auto" && " • auto budget"}
+          </span>
+        </div>
+        <div className="h-2 rounded-full bg-slate-800 overflow-hidden flex">
+          {[
+            { tokens: preview.system.tokens, className: "bg-violet-500" },
+            { tokens: preview.toolTokens, className: "bg-amber-500" },
+            { tokens: historyTokens, className: "bg-sky-500" },
+          ].map((segment, i) => (
+            <div
+              key={i}
+              className={segment.className}
+              style={{
+                width: `${Math.min(100, (segment.tokens / Math.max(1, limit)) * 100)}%`,
+              }}
+            />
+          ))}
+        </div>
+        <div className="flex gap-3 text-slate-500">
+          <span>
+            <span className="text-violet-400">■</span> System{" "}
+            {preview.system.tokens.toLocaleString()}
+          </span>
+          <span>
+            <span className="text-amber-400">■</span> Tools{" "}
+            {preview.toolTokens.toLocaleString()}
+          </span>
+          <span>
+            <span className="text-sky-400">■</span> Messages{" "}
+            {historyTokens.toLocaleString()}
+          </span>
+          {share > 1 && (
+            <span className="text-red-400">Over the context window</span>
+          )}
+        </div>
+      </div>
+
+      {preview.summaryRefresh && (
+        <div className="text-amber-300">
+          Sending first folds {preview.summaryRefresh.foldCount} older
+          message{preview.summaryRefresh.foldCount === 1 ? "" : "s"} into
+          the summary; the counts below use the current summary.
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="uppercase tracking-wide text-[10px] text-slate-500">
+          System
+        </div>
+        {preview.system.parts.map((part) => (
+          <details key={part.kind}>
+            <summary className="cursor-pointer flex justify-between gap-2">
+              <span className="text-slate-300">
+                {SYSTEM_PART_LABELS[part.kind]}
+              </span>
+              <span className="text-slate-500">
+                {part.tokens.toLocaleString()}
+              </span>
+            </summary>
+            <pre className="mt-1 whitespace-pre-wrap text-slate-400 bg-slate-900 rounded-md p-2">
+              {part.content}
+            </pre>
+          </details>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="uppercase tracking-wide text-[10px] text-slate-500">
+          Messages ({included.length} sent
+          {dropped.length > 0 && `, ${dropped.length} dropped`})
+        </div>
+        {preview.messages.length === 0 && (
+          <div className="text-slate-500">No messages yet.</div>
+        )}
+        {preview.messages.map((m) => (
+          <div
+            key={m.id}
+            className={`flex justify-between gap-2 ${
+              m.included ? "" : "opacity-50 line-through"
+            }`}
+            title={m.included ? undefined : "Not sent with this strategy"}
+          >
+            <span className="truncate">
+              <span
+                className={
+                  m.source === "summary"
+                    ? "text-amber-300"
+                    : m.source === "draft"
+                    ? "text-sky-300"
+                    : "text-slate-400"
+                }
+              >
+                {m.source === "summary"
+                  ? "summary"
+                  : m.source === "draft"
+                  ? `${m.role} (draft)`
+                  : m.role}
+              </span>{" "}
+              <span className="text-slate-300">{snippet(m.content)}</span>
+            </span>
+            <span className="shrink-0 text-slate-500">
+              {m.tokens.toLocaleString()}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {preview.tools.length > 0 && (
+        <div className="space-y-1">
+          <div className="uppercase tracking-wide text-[10px] text-slate-500">
+            Tools ({preview.tools.length})
+          </div>
+          {preview.tools.map((tool) => (
+            <details key={tool.name}>
+              <summary className="cursor-pointer flex justify-between gap-2">
+                <span className="text-slate-300">{tool.name}</span>
+                <span className="text-slate-500">
+                  {tool.tokens.toLocaleString()}
+                </span>
+              </summary>
+              <pre className="mt-1 whitespace-pre-wrap text-slate-400 bg-slate-900 rounded-md p-2">
+                {JSON.stringify(tool.definition, null, 2)}
+              </pre>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
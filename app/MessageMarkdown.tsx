@@ -0,0 +1,18 @@
+import ReactMarkdown from "react-markdown";
+
+// Markdown of a chat message, shared by the chat view and shared links.
+export default function MessageMarkdown({ content }: { content: string }) {
+  return (
+    <ReactMarkdown
+      components={{
+        p: (props) => <p className="mb-0 leading-snug" {...props} />,
+        strong: (props) => <strong className="font-semibold" {...props} />,
+        em: (props) => <em className="italic" {...props} />,
+        ul: (props) => <ul className="list-disc ml-4 mb-1" {...props} />,
+        ol: (props) => <ol className="list-decimal ml-4 mb-1" {...props} />,
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import {
+  PENDING_RUNS_COLLECTION,
+  type PendingToolRunDoc,
+} from "@/lib/pendingRuns";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+type PendingToolRunSummaryDoc = Pick<
+  PendingToolRunDoc,
+  "id" | "conversationId" | "createdAt"
+> & {
+  state: Pick<PendingToolRunDoc["state"], "pending" | "finalContent">;
+};
+
+// Runs paused in /api/chat waiting for tool approval, so the client can
+// show them again after a reload. Decisions are posted back to /api/chat
+// as { resumeRunId, decisions }.
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { searchParams } = new URL(req.url);
+  const conversationId = searchParams.get("conversationId");
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const docs = await db
+    .collection<PendingToolRunDoc>(PENDING_RUNS_COLLECTION)
+    .find(conversationId ? { userId, conversationId } : { userId })
+    .project<PendingToolRunSummaryDoc>({
+      _id: 0,
+      id: 1,
+      conversationId: 1,
+      createdAt: 1,
+      "state.pending": 1,
+      "state.finalContent": 1,
+    })
+    .sort({ createdAt: -1 })
+    .toArray();
+
+  return NextResponse.json({
+    runs: docs.map((doc) => ({
+      runId: doc.id,
+      conversationId: doc.conversationId,
+      createdAt: doc.createdAt,
+      calls: doc.state.pending,
+      content: doc.state.finalContent,
+    })),
+  });
+}
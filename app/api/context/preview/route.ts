@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import { resolveContextWindow } from "@/lib/models";
+import { buildSystemParts } from "@/lib/systemPrompt";
+import {
+  findLatestMessageId,
+  loadMessagePath,
+  messageExists,
+} from "@/lib/messageStore";
+import { buildAttachmentsMessage } from "@/lib/attachments";
+import { buildContextPreview } from "@/lib/contextPreview";
+import {
+  buildToolGuidance,
+  loadAvailableTools,
+  toOpenAITools,
+  type ToolUserSettings,
+} from "@/lib/tools";
+import type {
+  ChatMessage,
+  Conversation,
+  ModelConfig,
+  UploadedFile,
+} from "@/lib/chatTypes";
+import type { ContextPreviewRequest } from "@/lib/contextPreviewTypes";
+
+export const runtime = "nodejs";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+const DRAFT_MESSAGE_ID = "draft";
+
+interface UserSettingsDocForPreview extends ToolUserSettings {
+  customModels?: ModelConfig[];
+}
+
+// The prompt /api/chat would assemble for the next turn, with token
+// counts, without calling the model or storing anything.
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+
+  const body = (await req
+    .json()
+    .catch(() => null)) as Partial<ContextPreviewRequest> | null;
+  if (
+    !body ||
+    typeof body.conversationId !== "string" ||
+    typeof body.modelId !== "string" ||
+    !body.contextConfig ||
+    typeof body.contextConfig !== "object"
+  ) {
+    return NextResponse.json(
+      { error: "conversationId, modelId and contextConfig are required" },
+      { status: 400 }
+    );
+  }
+  const request = body as ContextPreviewRequest;
+  const { conversationId, enabledTools } = request;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const conversation = await db
+    .collection<Conversation>("conversations")
+    .findOne(
+      { userId, id: conversationId, deletedAt: null },
+      { projection: { activeLeafId: 1, contextSummary: 1 } }
+    );
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  const parentId =
+    request.parentId === undefined
+      ? conversation.activeLeafId ??
+        (await findLatestMessageId(db, conversationId))
+      : request.parentId;
+  if (
+    parentId !== null &&
+    !(await messageExists(db, conversationId, parentId))
+  ) {
+    return NextResponse.json({ error: "Unknown parentId" }, { status: 400 });
+  }
+  const messages: ChatMessage[] = parentId
+    ? await loadMessagePath(db, conversationId, parentId)
+    : [];
+
+  // The draft turn, shaped as /api/chat would store it.
+  const draftIds = new Set<string>();
+  const attachments = Array.isArray(request.attachments)
+    ? request.attachments.filter(
+        (f): f is UploadedFile =>
+          !!f && typeof f === "object" && typeof f.name === "string"
+      )
+    : [];
+  if (attachments.length > 0) {
+    const message = buildAttachmentsMessage(attachments);
+    draftIds.add(message.id);
+    messages.push({ ...message, parentId });
+  }
+  const content = typeof request.content === "string" ? request.content : "";
+  if (content.trim()) {
+    draftIds.add(DRAFT_MESSAGE_ID);
+    messages.push({
+      id: DRAFT_MESSAGE_ID,
+      role: "user",
+      content,
+      createdAt: Date.now(),
+      parentId: messages.length > 0 ? messages[messages.length - 1].id : null,
+    });
+  }
+
+  const settingsDoc = (await db
+    .collection("user_settings")
+    .findOne({ userId })) as UserSettingsDocForPreview | null;
+
+  const availableTools = await loadAvailableTools(userId, settingsDoc);
+  const offeredTools = Array.isArray(enabledTools)
+    ? availableTools.filter((tool) => enabledTools.includes(tool.name))
+    : availableTools;
+
+  const preview = buildContextPreview({
+    request,
+    messages,
+    draftIds,
+    systemParts: buildSystemParts({
+      systemPrompt: request.systemPrompt ?? "",
+      plannerPrompt: request.plannerPrompt ?? "",
+      reflectorPrompt: request.reflectorPrompt ?? "",
+      toolGuidance: buildToolGuidance(offeredTools),
+    }),
+    tools: toOpenAITools(offeredTools),
+    contextWindow: resolveContextWindow(
+      request.modelId,
+      settingsDoc?.customModels
+    ),
+    summary: conversation.contextSummary ?? null,
+  });
+
+  return NextResponse.json(preview);
+}
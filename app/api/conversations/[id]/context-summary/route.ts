@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import type { ContextSummary } from "@/lib/chatTypes";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+const MAX_SUMMARY_LENGTH = 20_000;
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// Replace the text of the summary kept by the summarize context strategy.
+// Later refreshes build on the edited text.
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+
+  const body = (await req.json().catch(() => ({}))) as { content?: unknown };
+  if (typeof body.content !== "string" || !body.content.trim()) {
+    return NextResponse.json(
+      { error: "content must be a non-empty string" },
+      { status: 400 }
+    );
+  }
+  if (body.content.length > MAX_SUMMARY_LENGTH) {
+    return NextResponse.json(
+      { error: `content must be at most ${MAX_SUMMARY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const updated = await db
+    .collection<{ contextSummary?: ContextSummary | null }>("conversations")
+    .findOneAndUpdate(
+      { userId, id, contextSummary: { $type: "object" } },
+      {
+        $set: {
+          "contextSummary.content": body.content.trim(),
+          "contextSummary.updatedAt": Date.now(),
+        },
+      },
+      {
+        returnDocument: "after",
+        projection: { contextSummary: 1 },
+        includeResultMetadata: false,
+      }
+    );
+  if (!updated?.contextSummary) {
+    return NextResponse.json(
+      { error: "This conversation has no summary yet" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(updated.contextSummary);
+}
+
+// Drop the summary. The next turn that exceeds the budget summarizes the
+// older messages again from scratch.
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const { matchedCount } = await db
+    .collection("conversations")
+    .updateOne({ userId, id }, { $set: { contextSummary: null } });
+  if (matchedCount === 0) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import {
+  EXPORT_CONTENT_TYPES,
+  buildConversationExport,
+  exportFileName,
+  isExportFormat,
+  renderConversationExport,
+} from "@/lib/conversationExport";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// Download a conversation as ?format=md|json|html (default md).
+// ?scratchpad=true and ?toolTrace=true add the scratchpad and the tool
+// calls made for each reply.
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+  const { searchParams } = new URL(req.url);
+  const format = searchParams.get("format") ?? "md";
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: "format must be md, json or html" },
+      { status: 400 }
+    );
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const exp = await buildConversationExport(db, userId, id, {
+    includeScratchpad: searchParams.get("scratchpad") === "true",
+    includeToolTrace: searchParams.get("toolTrace") === "true",
+  });
+  if (!exp) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  const fileName = exportFileName(exp.conversation, format);
+  return new NextResponse(renderConversationExport(exp, format), {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  });
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import type { Conversation } from "@/lib/chatTypes";
+import { insertMessages, loadMessagePath } from "@/lib/messageStore";
+import { loadScratchpad, saveScratchpad } from "@/lib/tools";
+import { randomUUID } from "crypto";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+type ConversationDoc = Omit<Conversation, "id" | "messages"> & {
+  id: string;
+  messageCount?: number;
+};
+
+// Copy the path from the root to `messageId` into a new conversation with
+// the same settings and a snapshot of the scratchpad.
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+
+  const body = (await req.json().catch(() => ({}))) as { messageId?: unknown };
+  const messageId = typeof body.messageId === "string" ? body.messageId : "";
+  if (!messageId) {
+    return NextResponse.json(
+      { error: "messageId is required" },
+      { status: 400 }
+    );
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const collection = db.collection<ConversationDoc>("conversations");
+
+  const source = await collection.findOne({ userId, id });
+  if (!source) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  const messages = await loadMessagePath(db, id, messageId);
+  if (messages.length === 0) {
+    return NextResponse.json({ error: "Message not found" }, { status: 404 });
+  }
+
+  const now = Date.now();
+  const conv: Conversation = {
+    id: randomUUID(),
+    userId,
+    title: `Fork of ${source.title}`,
+    createdAt: now,
+    updatedAt: now,
+    messages,
+    olderMessagesCursor: null,
+    activeLeafId: messageId,
+    settings: source.settings,
+    version: 0,
+    forkedFrom: {
+      conversationId: source.id,
+      messageId,
+      title: source.title,
+    },
+    // Forks are filed next to their source but start unpinned.
+    folder: source.folder ?? null,
+    tags: source.tags ?? [],
+    pinned: false,
+    archived: false,
+  };
+
+  await collection.insertOne({
+    userId,
+    id: conv.id,
+    title: conv.title,
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+    messageCount: messages.length,
+    activeLeafId: conv.activeLeafId,
+    settings: conv.settings,
+    version: conv.version,
+    forkedFrom: conv.forkedFrom,
+    folder: conv.folder,
+    tags: conv.tags,
+    pinned: conv.pinned,
+    archived: conv.archived,
+  });
+  await insertMessages(db, userId, conv.id, messages);
+
+  const scratchpad = await loadScratchpad(db, userId, source.id);
+  if (scratchpad) {
+    await saveScratchpad(db, userId, conv.id, scratchpad);
+  }
+
+  return NextResponse.json(conv, { status: 201 });
+}
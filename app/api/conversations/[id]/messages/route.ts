@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import {
+  DEFAULT_MESSAGE_PAGE_SIZE,
+  MAX_MESSAGE_PAGE_SIZE,
+  loadMessagePage,
+} from "@/lib/messageStore";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// Older messages of a conversation (every branch), for loading history
+// while scrolling up. `before` is the cursor from the previous page.
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+  const { searchParams } = new URL(req.url);
+  const before = searchParams.get("before");
+  const requestedLimit = Number(searchParams.get("limit"));
+  const limit =
+    Number.isInteger(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_MESSAGE_PAGE_SIZE)
+      : DEFAULT_MESSAGE_PAGE_SIZE;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const owned = await db
+    .collection("conversations")
+    .countDocuments(
+      { id, $or: [{ userId }, { userId: { $exists: false } }] },
+      { limit: 1 }
+    );
+  if (owned === 0) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  const page = await loadMessagePage(db, id, before, limit);
+  if (!page) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  return NextResponse.json(page);
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// Move a conversation out of the trash.
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const { matchedCount } = await db
+    .collection("conversations")
+    .updateOne(
+      { userId, id, deletedAt: { $ne: null } },
+      { $unset: { deletedAt: "" }, $inc: { version: 1 } }
+    );
+  if (matchedCount === 0) {
+    return NextResponse.json(
+      { error: "Conversation not found in trash" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -2,7 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import clientPromise from "@/lib/mongodb";
-import type { Conversation } from "@/lib/chatTypes";
+import type { ChatMessage, Conversation } from "@/lib/chatTypes";
+import {
+  DEFAULT_MESSAGE_PAGE_SIZE,
+  loadMessagePage,
+  loadMessagePath,
+  messageExists,
+} from "@/lib/messageStore";
+import { parseOrganizationUpdate } from "@/lib/conversationOrganization";
+import { purgeConversations } from "@/lib/trash";
 
 const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
 
@@ -10,6 +18,95 @@ interface RouteParams {
   params: { id: string };
 }
 
+type ConversationDoc = Omit<Conversation, "id" | "messages"> & {
+  id: string;
+  messageCount?: number;
+};
+
+function compareMessages(a: ChatMessage, b: ChatMessage): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt - b.createdAt;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function toConversation(
+  doc: ConversationDoc,
+  userId: string,
+  messages: ChatMessage[] = [],
+  olderMessagesCursor: string | null = null
+): Conversation {
+  return {
+    id: doc.id,
+    userId: doc.userId ?? userId,
+    title: doc.title,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+    messages,
+    olderMessagesCursor,
+    activeLeafId: doc.activeLeafId ?? null,
+    settings: doc.settings,
+    version: doc.version ?? 0,
+    forkedFrom: doc.forkedFrom,
+    folder: doc.folder ?? null,
+    tags: doc.tags ?? [],
+    pinned: doc.pinned ?? false,
+    archived: doc.archived ?? false,
+    deletedAt: doc.deletedAt ?? null,
+    contextSummary: doc.contextSummary ?? null,
+  };
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+  // Also load the branch leading to this message (e.g. a search hit).
+  const focusMessageId = new URL(req.url).searchParams.get("messageId");
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const collection = db.collection<ConversationDoc>("conversations");
+
+  // Legacy conversations without a userId are listed for every user, so
+  // they can be opened the same way.
+  const doc =
+    (await collection.findOne({ userId, id })) ??
+    (await collection.findOne({ id, userId: { $exists: false } }));
+  if (!doc) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  // The newest messages of every branch, plus the tail of the active
+  // branch in case it is older than those (after switching back to an old
+  // branch). Older messages are paged in from /messages.
+  const [page, activePath, focusPath] = await Promise.all([
+    loadMessagePage(db, id, null, DEFAULT_MESSAGE_PAGE_SIZE),
+    doc.activeLeafId
+      ? loadMessagePath(db, id, doc.activeLeafId, DEFAULT_MESSAGE_PAGE_SIZE)
+      : Promise.resolve([]),
+    focusMessageId
+      ? loadMessagePath(db, id, focusMessageId, DEFAULT_MESSAGE_PAGE_SIZE)
+      : Promise.resolve([]),
+  ]);
+  const byId = new Map<string, ChatMessage>();
+  for (const m of [...activePath, ...focusPath, ...(page?.messages ?? [])]) {
+    byId.set(m.id, m);
+  }
+  const messages = Array.from(byId.values()).sort(compareMessages);
+
+  return NextResponse.json(
+    toConversation(doc, userId, messages, page?.nextCursor ?? null)
+  );
+}
+
 export async function PUT(req: NextRequest, { params }: RouteParams) {
   const session = await getServerSession(authOptions);
   const user = session?.user as { id?: string } | null;
@@ -22,24 +119,73 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
   const { id } = params;
 
   const conv = (await req.json()) as Conversation;
+  const organization = parseOrganizationUpdate(
+    conv as unknown as Record<string, unknown>
+  );
+  if ("error" in organization) {
+    return NextResponse.json({ error: organization.error }, { status: 400 });
+  }
+  const expectedVersion =
+    typeof conv.version === "number" && Number.isInteger(conv.version)
+      ? conv.version
+      : 0;
 
   const client = await clientPromise;
   const db = client.db(DB_NAME);
+  const collection = db.collection<ConversationDoc>("conversations");
+
+  // A leaf the server has not stored (e.g. a reply still streaming) is
+  // ignored; /api/chat moves the leaf itself when it appends messages.
+  const activeLeafId =
+    typeof conv.activeLeafId === "string" &&
+    (await messageExists(db, id, conv.activeLeafId))
+      ? conv.activeLeafId
+      : null;
 
-  await db.collection("conversations").updateOne(
-    { userId, id },
+  // Messages are only appended by /api/chat, so a stale client cannot
+  // rewrite the history here. Title, settings, folder, tags, flags and the
+  // branch being shown are only written when the client saw the current
+  // version.
+  const updated = await collection.findOneAndUpdate(
+    {
+      userId,
+      id,
+      ...(expectedVersion === 0
+        ? { $or: [{ version: 0 }, { version: { $exists: false } }] }
+        : { version: expectedVersion }),
+    },
     {
       $set: {
         title: conv.title,
-        messages: conv.messages,
         settings: conv.settings,
+        ...organization.update,
+        ...(activeLeafId ? { activeLeafId } : {}),
         updatedAt: conv.updatedAt ?? Date.now(),
       },
+      $inc: { version: 1 },
     },
-    { upsert: true }
+    { returnDocument: "after", includeResultMetadata: false }
   );
 
-  return NextResponse.json({ ok: true });
+  if (updated) {
+    return NextResponse.json({ ok: true, version: updated.version ?? 0 });
+  }
+
+  const current = await collection.findOne({ userId, id });
+  if (!current) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      error: "Conversation was modified by another client",
+      conversation: toConversation(current, userId),
+    },
+    { status: 409 }
+  );
 }
 
 export async function DELETE(req: NextRequest, { params }: RouteParams) {
@@ -52,11 +198,23 @@ export async function DELETE(req: NextRequest, { params }: RouteParams) {
 
   const userId = user.id as string;
   const { id } = params;
+  const permanent = new URL(req.url).searchParams.get("permanent") === "true";
 
   const client = await clientPromise;
   const db = client.db(DB_NAME);
 
-  await db.collection("conversations").deleteOne({ userId, id });
+  // ?permanent=true purges the conversation with its messages, scratchpad
+  // and logs. Otherwise it is moved to the trash.
+  if (permanent) {
+    await purgeConversations(db, userId, [id]);
+  } else {
+    await db
+      .collection<ConversationDoc>("conversations")
+      .updateOne(
+        { userId, id, deletedAt: null },
+        { $set: { deletedAt: Date.now() }, $inc: { version: 1 } }
+      );
+  }
 
   return NextResponse.json({ ok: true });
 }
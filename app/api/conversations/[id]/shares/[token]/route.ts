@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import { SHARES_COLLECTION } from "@/lib/shares";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+interface RouteParams {
+  params: { id: string; token: string };
+}
+
+// Revoke a share link. The link stops working immediately.
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id, token } = params;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const { deletedCount } = await db
+    .collection(SHARES_COLLECTION)
+    .deleteOne({ userId, conversationId: id, token });
+  if (deletedCount === 0) {
+    return NextResponse.json(
+      { error: "Share link not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import {
+  MAX_SHARES_PER_CONVERSATION,
+  SHARES_COLLECTION,
+  createShareToken,
+  ensureShareIndexes,
+  parseCreateShareRequest,
+  toConversationShare,
+  type ShareDoc,
+} from "@/lib/shares";
+import type { CreateShareRequest } from "@/lib/shareTypes";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// Share links of a conversation that have not expired, newest first.
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const docs = await db
+    .collection<ShareDoc>(SHARES_COLLECTION)
+    .find({
+      userId,
+      conversationId: id,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: Date.now() } }],
+    })
+    .sort({ createdAt: -1 })
+    .toArray();
+
+  return NextResponse.json({ shares: docs.map(toConversationShare) });
+}
+
+// Create a read-only link to the conversation.
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+
+  let body: CreateShareRequest;
+  try {
+    body = await req.json();
+  } catch {
+    body = {};
+  }
+  const parsed = parseCreateShareRequest(body ?? {});
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const conv = await db
+    .collection("conversations")
+    .findOne({ userId, id, deletedAt: null }, { projection: { id: 1 } });
+  if (!conv) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  await ensureShareIndexes(db);
+  const shares = db.collection<ShareDoc>(SHARES_COLLECTION);
+  const active = await shares.countDocuments({
+    userId,
+    conversationId: id,
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: Date.now() } }],
+  });
+  if (active >= MAX_SHARES_PER_CONVERSATION) {
+    return NextResponse.json(
+      {
+        error: `A conversation can have at most ${MAX_SHARES_PER_CONVERSATION} share links`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const doc: ShareDoc = {
+    ...parsed.options,
+    token: createShareToken(),
+    userId,
+    conversationId: id,
+  };
+  await shares.insertOne(doc);
+
+  return NextResponse.json(toConversationShare(doc), { status: 201 });
+}
@@ -106,15 +106,26 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
   rawTitle = rawTitle.replace(/\s+/g, " ");
   rawTitle = rawTitle.replace(/\.$/, "");
 
-	await db.collection("conversations").updateOne(
-		{ userId, id },
-		{
-			$set: {
-				title: rawTitle,
-				updatedAt: Date.now(),
-			},
-		}
-	);
-
-	return NextResponse.json({ title: rawTitle });
+  // Bump the version like every other writer, so a tab that has not seen
+  // the new title gets a 409 instead of overwriting it.
+  const updated = await db.collection("conversations").findOneAndUpdate(
+    { userId, id },
+    {
+      $set: {
+        title: rawTitle,
+        updatedAt: Date.now(),
+      },
+      $inc: { version: 1 },
+    },
+    {
+      returnDocument: "after",
+      projection: { version: 1 },
+      includeResultMetadata: false,
+    }
+  );
+
+  return NextResponse.json({
+    title: rawTitle,
+    version: updated?.version ?? null,
+  });
 }
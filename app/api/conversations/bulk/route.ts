@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import type { BulkConversationUpdate, Conversation } from "@/lib/chatTypes";
+import {
+  MAX_TAGS_PER_CONVERSATION,
+  normalizeTags,
+  parseOrganizationUpdate,
+} from "@/lib/conversationOrganization";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+const MAX_BULK_IDS = 200;
+
+type ConversationDoc = Omit<Conversation, "id" | "messages"> & {
+  id: string;
+};
+
+// Update folder, tags, pinned and archived on several conversations.
+// Body: { ids, folder?, tags?, pinned?, archived?, addTags?, removeTags? }.
+// `tags` replaces the tags; addTags/removeTags change them in place.
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+
+  const rawBody = await req.json().catch(() => null);
+  const body =
+    rawBody && typeof rawBody === "object"
+      ? (rawBody as Record<string, unknown>)
+      : ({} as Record<string, unknown>);
+
+  const ids = Array.isArray(body.ids)
+    ? body.ids.filter((id): id is string => typeof id === "string")
+    : [];
+  if (ids.length === 0 || ids.length > MAX_BULK_IDS) {
+    return NextResponse.json(
+      { error: `ids must list 1 to ${MAX_BULK_IDS} conversations` },
+      { status: 400 }
+    );
+  }
+
+  const organization = parseOrganizationUpdate(body);
+  if ("error" in organization) {
+    return NextResponse.json({ error: organization.error }, { status: 400 });
+  }
+  const addTags =
+    body.addTags === undefined ? [] : normalizeTags(body.addTags);
+  const removeTags =
+    body.removeTags === undefined ? [] : normalizeTags(body.removeTags);
+  if (!addTags || !removeTags) {
+    return NextResponse.json(
+      { error: "addTags and removeTags must be arrays of strings" },
+      { status: 400 }
+    );
+  }
+
+  const { tags, ...fields } = organization.update;
+  // The update is a pipeline so tags can be added and removed at once.
+  // Values from the request are wrapped in $literal so strings starting
+  // with "$" are not read as field paths.
+  const set: Record<string, unknown> = {
+    version: { $add: [{ $ifNull: ["$version", 0] }, 1] },
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    set[key] = { $literal: value };
+  }
+  if (tags !== undefined || addTags.length > 0 || removeTags.length > 0) {
+    const base =
+      tags !== undefined ? { $literal: tags } : { $ifNull: ["$tags", []] };
+    set.tags = {
+      $slice: [
+        {
+          $setDifference: [
+            { $setUnion: [base, { $literal: addTags }] },
+            { $literal: removeTags },
+          ],
+        },
+        MAX_TAGS_PER_CONVERSATION,
+      ],
+    };
+  }
+  if (Object.keys(set).length === 1) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const collection = db.collection<ConversationDoc>("conversations");
+
+  // Bumping the version makes clients holding an older copy reload it
+  // before their next PUT.
+  await collection.updateMany({ userId, id: { $in: ids } }, [{ $set: set }]);
+
+  const docs = await collection
+    .find(
+      { userId, id: { $in: ids } },
+      {
+        projection: {
+          _id: 0,
+          id: 1,
+          version: 1,
+          folder: 1,
+          tags: 1,
+          pinned: 1,
+          archived: 1,
+        },
+      }
+    )
+    .toArray();
+
+  const conversations: BulkConversationUpdate[] = docs.map((doc) => ({
+    id: doc.id,
+    version: doc.version ?? 0,
+    folder: doc.folder ?? null,
+    tags: doc.tags ?? [],
+    pinned: doc.pinned ?? false,
+    archived: doc.archived ?? false,
+  }));
+
+  return NextResponse.json({ conversations });
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import { randomUUID } from "crypto";
+import { detectImportFormat, parseImport } from "@/lib/conversationImport";
+import type {
+  ImportBranchMode,
+  ImportFormat,
+  ImportRequest,
+  ImportResponse,
+  ImportResult,
+} from "@/lib/importTypes";
+import {
+  deleteConversationMessages,
+  insertMessages,
+} from "@/lib/messageStore";
+import { defaultConversationSettings } from "@/lib/models";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+const MAX_IMPORTED_CONVERSATIONS = 500;
+const IMPORT_FORMATS: ImportFormat[] = ["auto", "chatgpt", "claude", "openai"];
+const BRANCH_MODES: ImportBranchMode[] = ["preserve", "flatten"];
+
+// Create conversations from a ChatGPT, Claude or OpenAI-style export.
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+
+  let body: ImportRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const requestedFormat = body.format ?? "auto";
+  if (!IMPORT_FORMATS.includes(requestedFormat)) {
+    return NextResponse.json(
+      { error: `format must be one of ${IMPORT_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const branches = body.branches ?? "preserve";
+  if (!BRANCH_MODES.includes(branches)) {
+    return NextResponse.json(
+      { error: `branches must be one of ${BRANCH_MODES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const format =
+    requestedFormat === "auto"
+      ? detectImportFormat(body.data)
+      : requestedFormat;
+  if (!format) {
+    return NextResponse.json(
+      { error: "Unrecognized export format" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseImport(
+    body.data,
+    format,
+    branches,
+    typeof body.title === "string" ? body.title.trim() : ""
+  );
+  if (parsed.length > MAX_IMPORTED_CONVERSATIONS) {
+    return NextResponse.json(
+      {
+        error: `At most ${MAX_IMPORTED_CONVERSATIONS} conversations can be imported at once`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const conversations = db.collection("conversations");
+
+  // One at a time, so a failure affects only its own conversation.
+  const results: ImportResult[] = [];
+  for (const [index, result] of parsed.entries()) {
+    if (!result.ok) {
+      results.push({
+        index,
+        ok: false,
+        title: result.title,
+        error: result.error,
+      });
+      continue;
+    }
+    const conv = result.conversation;
+    const id = randomUUID();
+    try {
+      await insertMessages(db, userId, id, conv.messages);
+      await conversations.insertOne({
+        userId,
+        id,
+        title: conv.title,
+        createdAt: conv.createdAt,
+        updatedAt: conv.updatedAt,
+        messageCount: conv.messages.length,
+        activeLeafId: conv.activeLeafId,
+        settings: defaultConversationSettings(),
+        version: 0,
+        folder: null,
+        tags: [],
+        pinned: false,
+        archived: false,
+      });
+      results.push({
+        index,
+        ok: true,
+        title: conv.title,
+        conversationId: id,
+        messageCount: conv.messages.length,
+      });
+    } catch (err) {
+      console.error("Failed to import conversation", err);
+      await deleteConversationMessages(db, [id]).catch(() => undefined);
+      results.push({
+        index,
+        ok: false,
+        title: conv.title,
+        error: "Failed to save conversation",
+      });
+    }
+  }
+
+  const imported = results.filter((r) => r.ok).length;
+  const response: ImportResponse = {
+    format,
+    imported,
+    failed: results.length - imported,
+    results,
+  };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import type { ConversationLabels } from "@/lib/chatTypes";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+// Every folder and tag in use, for the sidebar filters. The list of
+// conversations is paged, so these cannot be derived from it.
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const collection = db.collection("conversations");
+
+  const [folders, tags] = await Promise.all([
+    collection.distinct("folder", { userId, deletedAt: null }),
+    collection.distinct("tags", { userId, deletedAt: null }),
+  ]);
+
+  const byName = (a: string, b: string) => a.localeCompare(b);
+  const labels: ConversationLabels = {
+    folders: folders
+      .filter((f): f is string => typeof f === "string" && f !== "")
+      .sort(byName),
+    tags: tags.filter((t): t is string => typeof t === "string").sort(byName),
+  };
+
+  return NextResponse.json(labels);
+}
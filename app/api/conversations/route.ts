@@ -2,13 +2,23 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import clientPromise from "@/lib/mongodb";
-import type { Conversation } from "@/lib/chatTypes";
+import type { Collection, Filter } from "mongodb";
+import type {
+  Conversation,
+  ConversationSummary,
+  ConversationSummaryPage,
+} from "@/lib/chatTypes";
 import { randomUUID } from "crypto";
+import { purgeTrash } from "@/lib/trash";
+import { defaultConversationSettings } from "@/lib/models";
 
 const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
 
-type ConversationDoc = Omit<Conversation, "id"> & {
+type ConversationDoc = Omit<Conversation, "id" | "messages"> & {
   id: string;
+  messageCount?: number;
+  // Only on documents not yet migrated to the messages collection.
+  messages?: Conversation["messages"];
 };
 
 function formatDefaultConversationTitle(date: Date): string {
@@ -21,8 +31,123 @@ function formatDefaultConversationTitle(date: Date): string {
   return `Chat ${mm}-${dd}-${yyyy} ${hh}:${min}`;
 }
 
-export async function GET(_req: NextRequest) {
-  void _req;
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+interface PageKey {
+  // Paging through legacy conversations without a userId; see GET.
+  legacy: boolean;
+  // 1 for pinned conversations, which are listed first.
+  pinned: number;
+  updatedAt: number;
+  id: string;
+}
+
+// Cursors encode the sort key (pinned, updatedAt, id) of the last entry of
+// a page, prefixed with "legacy:" when paging through legacy conversations.
+function encodeCursor(summary: ConversationSummary, legacy: boolean): string {
+  return Buffer.from(
+    `${legacy ? "legacy:" : ""}${summary.pinned ? 1 : 0}:${
+      summary.updatedAt
+    }:${summary.id}`
+  ).toString("base64url");
+}
+
+function decodeCursor(cursor: string | null): PageKey | null {
+  if (!cursor) return null;
+  const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+  const match = /^(legacy:)?([01]):(\d+):(.+)$/.exec(decoded);
+  if (!match) return null;
+  return {
+    legacy: !!match[1],
+    pinned: Number(match[2]),
+    updatedAt: Number(match[3]),
+    id: match[4],
+  };
+}
+
+// Archived conversations are only listed with ?archived=true and trashed
+// ones only with ?trash=true. ?tag= and ?folder= narrow the list further.
+function buildListFilter(
+  searchParams: URLSearchParams
+): Filter<ConversationDoc> {
+  if (searchParams.get("trash") === "true") {
+    return { deletedAt: { $ne: null } };
+  }
+  const filter: Filter<ConversationDoc> =
+    searchParams.get("archived") === "true"
+      ? { archived: true, deletedAt: null }
+      : { archived: { $ne: true }, deletedAt: null };
+  const tag = searchParams.get("tag");
+  if (tag) filter.tags = tag;
+  const folder = searchParams.get("folder");
+  if (folder) filter.folder = folder;
+  return filter;
+}
+
+async function findSummaryPage(
+  collection: Collection<ConversationDoc>,
+  filter: Filter<ConversationDoc>,
+  after: PageKey | null,
+  limit: number
+): Promise<ConversationSummary[]> {
+  return collection
+    .aggregate<ConversationSummary>([
+      { $match: filter },
+      {
+        $addFields: {
+          pinnedRank: { $cond: [{ $eq: ["$pinned", true] }, 1, 0] },
+        },
+      },
+      ...(after
+        ? [
+            {
+              $match: {
+                $or: [
+                  { pinnedRank: { $lt: after.pinned } },
+                  {
+                    pinnedRank: after.pinned,
+                    updatedAt: { $lt: after.updatedAt },
+                  },
+                  {
+                    pinnedRank: after.pinned,
+                    updatedAt: after.updatedAt,
+                    id: { $lt: after.id },
+                  },
+                ],
+              },
+            },
+          ]
+        : []),
+      { $sort: { pinnedRank: -1, updatedAt: -1, id: -1 } },
+      { $limit: limit },
+      {
+        $project: {
+          _id: 0,
+          id: 1,
+          title: 1,
+          createdAt: 1,
+          updatedAt: 1,
+          messageCount: {
+            $ifNull: [
+              "$messageCount",
+              { $size: { $ifNull: ["$messages", []] } },
+            ],
+          },
+          modelId: "$settings.modelId",
+          forkedFrom: 1,
+          folder: { $ifNull: ["$folder", null] },
+          tags: { $ifNull: ["$tags", []] },
+          pinned: { $eq: ["$pinned", true] },
+          archived: { $eq: ["$archived", true] },
+          deletedAt: { $ifNull: ["$deletedAt", null] },
+        },
+      },
+    ])
+    .toArray();
+}
+
+export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
   const user = session?.user as { id?: string } | null;
 
@@ -31,36 +156,63 @@ export async function GET(_req: NextRequest) {
   }
 
   const userId = user.id as string;
+  const { searchParams } = new URL(req.url);
+  const cursorParam = searchParams.get("cursor");
+  const after = decodeCursor(cursorParam);
+  if (cursorParam && !after) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+  const requestedLimit = Number(searchParams.get("limit"));
+  const limit =
+    Number.isInteger(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
+  const listFilter = buildListFilter(searchParams);
 
   const client = await clientPromise;
   const db = client.db(DB_NAME);
-  let docs = await db
-    .collection<ConversationDoc>("conversations")
-    .find({ userId })
-    .sort({ updatedAt: -1 })
-    .toArray();
+  const collection = db.collection<ConversationDoc>("conversations");
+
+  // Trash older than the retention period is purged whenever the list is
+  // loaded from the start.
+  if (!after) {
+    await purgeTrash(db, userId, { expiredOnly: true });
+  }
 
   // Fallback for legacy conversations that predate per-user storage and
-  // therefore have no userId field yet.
-  if (docs.length === 0) {
-    docs = await db
-      .collection<ConversationDoc>("conversations")
-      .find({ userId: { $exists: false } })
-      .sort({ updatedAt: -1 })
-      .toArray();
+  // therefore have no userId field yet. It is chosen on the first page and
+  // kept in the cursor for the pages after it.
+  const legacyFilter = { ...listFilter, userId: { $exists: false } };
+
+  // Fetch one extra entry to know whether another page follows.
+  let legacy = after?.legacy ?? false;
+  let summaries = await findSummaryPage(
+    collection,
+    legacy ? legacyFilter : { ...listFilter, userId },
+    after,
+    limit + 1
+  );
+
+  if (summaries.length === 0 && !after) {
+    legacy = true;
+    summaries = await findSummaryPage(
+      collection,
+      legacyFilter,
+      null,
+      limit + 1
+    );
   }
 
-  const conversations: Conversation[] = docs.map((doc) => ({
-    id: doc.id,
-    userId: doc.userId ?? userId,
-    title: doc.title,
-    createdAt: doc.createdAt,
-    updatedAt: doc.updatedAt,
-    messages: doc.messages ?? [],
-    settings: doc.settings,
-  }));
-
-  return NextResponse.json(conversations);
+  const hasMore = summaries.length > limit;
+  const conversations = summaries.slice(0, limit);
+  const page: ConversationSummaryPage = {
+    conversations,
+    nextCursor: hasMore
+      ? encodeCursor(conversations[limit - 1], legacy)
+      : null,
+  };
+
+  return NextResponse.json(page);
 }
 
 export async function POST(req: NextRequest) {
@@ -85,20 +237,6 @@ export async function POST(req: NextRequest) {
       : formatDefaultConversationTitle(nowDate);
   const now = nowDate.getTime();
 
-  const defaultSettings = {
-    modelId: "openai/gpt-4.1-mini",
-    systemPrompt: "You are a helpful assistant.",
-    reflectorPrompt: "",
-    plannerPrompt: "",
-    context: {
-      strategy: "full" as const,
-      lastN: 20,
-      maxApproxTokens: 6000,
-    },
-    temperature: 0.2,
-    stream: true,
-  };
-
   const conv: Conversation = {
     id: randomUUID(),
     userId,
@@ -106,7 +244,14 @@ export async function POST(req: NextRequest) {
     createdAt: now,
     updatedAt: now,
     messages: [],
-    settings: defaultSettings,
+    olderMessagesCursor: null,
+    activeLeafId: null,
+    settings: defaultConversationSettings(),
+    version: 0,
+    folder: null,
+    tags: [],
+    pinned: false,
+    archived: false,
   };
 
   const client = await clientPromise;
@@ -118,8 +263,14 @@ export async function POST(req: NextRequest) {
     title: conv.title,
     createdAt: conv.createdAt,
     updatedAt: conv.updatedAt,
-    messages: conv.messages,
+    messageCount: 0,
+    activeLeafId: conv.activeLeafId,
     settings: conv.settings,
+    version: conv.version,
+    folder: conv.folder,
+    tags: conv.tags,
+    pinned: conv.pinned,
+    archived: conv.archived,
   });
 
   return NextResponse.json(conv, { status: 201 });
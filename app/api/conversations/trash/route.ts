@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import { purgeTrash } from "@/lib/trash";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+// Empty the trash. Trashed conversations are listed with
+// GET /api/conversations?trash=true.
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const purged = await purgeTrash(db, userId, { expiredOnly: false });
+
+  return NextResponse.json({ ok: true, purged });
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import {
+  buildConversationExport,
+  exportFileName,
+  renderConversationExport,
+} from "@/lib/conversationExport";
+import { ZipWriter } from "@/lib/zip";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+function redactKeyValuePairs(pairs: unknown): unknown {
+  if (!Array.isArray(pairs)) return pairs;
+  return pairs.map((pair: Record<string, unknown>) => ({
+    key: pair?.key,
+    hasValue: Boolean(pair?.value),
+  }));
+}
+
+// The user's settings without the OpenRouter key, Web Client secrets and
+// MCP env/header values.
+function redactSettings(
+  doc: Record<string, unknown> | null
+): Record<string, unknown> | null {
+  if (!doc) return null;
+  const settings: Record<string, unknown> = {
+    ...doc,
+    hasApiKey: Boolean(doc.openRouterApiKey),
+  };
+  delete settings._id;
+  delete settings.openRouterApiKey;
+  if (Array.isArray(doc.webClientDomains)) {
+    settings.webClientDomains = doc.webClientDomains.map(
+      (domain: Record<string, unknown>) => ({
+        ...domain,
+        secret: undefined,
+        hasSecret: Boolean(domain.secret),
+      })
+    );
+  }
+  // MCP env vars and headers often carry tokens: keep the names only.
+  if (Array.isArray(doc.mcpServers)) {
+    settings.mcpServers = doc.mcpServers.map(
+      (server: Record<string, unknown>) => ({
+        ...server,
+        env: redactKeyValuePairs(server.env),
+        headers: redactKeyValuePairs(server.headers),
+      })
+    );
+  }
+  return settings;
+}
+
+// Download every conversation (JSON with all branches, scratchpad and tool
+// calls, plus a Markdown transcript) and the user's settings as a zip.
+// Conversations are read and compressed one at a time while the response
+// streams.
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const ids = (
+    await db
+      .collection("conversations")
+      .find({ userId }, { projection: { id: 1 } })
+      .sort({ createdAt: 1 })
+      .toArray()
+  ).map((doc) => doc.id as string);
+
+  const exportedAt = new Date();
+  const files: string[] = [];
+  let zip: ZipWriter;
+  let index = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new ZipWriter((chunk) => controller.enqueue(chunk));
+    },
+    async pull(controller) {
+      try {
+        if (index < ids.length) {
+          const exp = await buildConversationExport(db, userId, ids[index++], {
+            includeScratchpad: true,
+            includeToolTrace: true,
+          });
+          if (exp) {
+            for (const format of ["json", "md"] as const) {
+              const name = `conversations/${exportFileName(
+                exp.conversation,
+                format
+              )}`;
+              zip.addFile(name, renderConversationExport(exp, format));
+              files.push(name);
+            }
+          }
+          return;
+        }
+
+        const settings = await db
+          .collection("user_settings")
+          .findOne({ userId });
+        zip.addFile(
+          "settings.json",
+          JSON.stringify(redactSettings(settings), null, 2)
+        );
+        zip.addFile(
+          "manifest.json",
+          JSON.stringify(
+            {
+              exportedAt: exportedAt.getTime(),
+              conversations: ids.length,
+              files,
+            },
+            null,
+            2
+          )
+        );
+        zip.finish();
+        controller.close();
+      } catch (err) {
+        console.error("Failed to export user data", err);
+        controller.error(err);
+      }
+    },
+  });
+
+  const date = exportedAt.toISOString().slice(0, 10);
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="veilfire-export-${date}.zip"`,
+    },
+  });
+}
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import clientPromise from "@/lib/mongodb";
-import type { ChatLog } from "@/lib/logTypes";
+import type { ChatMessage } from "@/lib/chatTypes";
+import type { ChatLog, ChatLogDoc } from "@/lib/logTypes";
+import { loadMessagesById } from "@/lib/messageStore";
 
 const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
 
@@ -33,16 +35,49 @@ export async function GET(req: NextRequest) {
     .limit(100)
     .toArray();
 
-  const logs: ChatLog[] = docs.map((doc) => {
-    const d = doc as unknown as {
-      _id: { toString(): string };
-      userId: string;
-      conversationId?: string | null;
-      createdAt: number;
-      modelId: string;
-      request: ChatLog["request"];
-      response: ChatLog["response"];
-    };
+  const logDocs = docs as unknown as (ChatLogDoc & {
+    _id: { toString(): string };
+  })[];
+
+  // Resolve the message ids of newer logs from the messages collection.
+  const conversationIds = new Set<string>();
+  const messageIds = new Set<string>();
+  for (const doc of logDocs) {
+    if (!doc.conversationId) continue;
+    for (const id of doc.request.messageIds ?? []) {
+      conversationIds.add(doc.conversationId);
+      messageIds.add(id);
+    }
+  }
+  const messagesByKey =
+    messageIds.size > 0
+      ? await loadMessagesById(
+          db,
+          Array.from(conversationIds),
+          Array.from(messageIds)
+        )
+      : new Map<string, ChatMessage>();
+
+  const resolve = (
+    conversationId: string | null | undefined,
+    ids: string[] | undefined,
+    embedded: ChatMessage[] | undefined
+  ): ChatMessage[] => {
+    if (!ids) return embedded ?? [];
+    return ids.flatMap((id) => {
+      const message = messagesByKey.get(`${conversationId}:${id}`);
+      return message ? [message] : [];
+    });
+  };
+
+  const logs: ChatLog[] = logDocs.map((d) => {
+    const {
+      messageIds: storedIds,
+      trimmedMessageIds,
+      messages,
+      trimmedMessages,
+      ...request
+    } = d.request;
 
     return {
       id: d._id.toString(),
@@ -50,7 +85,15 @@ export async function GET(req: NextRequest) {
       conversationId: d.conversationId ?? null,
       createdAt: d.createdAt,
       modelId: d.modelId,
-      request: d.request,
+      request: {
+        ...request,
+        messages: resolve(d.conversationId, storedIds, messages),
+        trimmedMessages: resolve(
+          d.conversationId,
+          trimmedMessageIds,
+          trimmedMessages
+        ),
+      },
       response: d.response,
     };
   });
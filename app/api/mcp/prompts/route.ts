@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import { getUserMcpManager } from "@/lib/mcpConfig";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const manager = await getUserMcpManager(db, user.id as string);
+  if (!manager) {
+    return NextResponse.json({ prompts: [] });
+  }
+
+  const prompts = await manager.listAllPrompts();
+  return NextResponse.json({ prompts });
+}
+
+// Expand a prompt template with the given arguments (prompts/get).
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => null)) as {
+    serverId?: unknown;
+    name?: unknown;
+    arguments?: unknown;
+  } | null;
+  const serverId = typeof body?.serverId === "string" ? body.serverId : "";
+  const name = typeof body?.name === "string" ? body.name : "";
+
+  if (!serverId || !name) {
+    return NextResponse.json(
+      { error: "serverId and name are required." },
+      { status: 400 }
+    );
+  }
+
+  const args: Record<string, string> = {};
+  if (body?.arguments && typeof body.arguments === "object") {
+    for (const [key, value] of Object.entries(
+      body.arguments as Record<string, unknown>
+    )) {
+      if (typeof value === "string") {
+        args[key] = value;
+      }
+    }
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const manager = await getUserMcpManager(db, user.id as string);
+  if (!manager) {
+    return NextResponse.json(
+      { error: "MCP is not enabled." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const prompt = await manager.getPrompt(serverId, name, args);
+    return NextResponse.json({ serverId, name, ...prompt });
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error:
+          err instanceof Error && err.message
+            ? err.message
+            : "Failed to get MCP prompt.",
+      },
+      { status: 502 }
+    );
+  }
+}
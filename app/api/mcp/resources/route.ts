@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import { getUserMcpManager } from "@/lib/mcpConfig";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const manager = await getUserMcpManager(db, user.id as string);
+  if (!manager) {
+    return NextResponse.json({ resources: [] });
+  }
+
+  const resources = await manager.listAllResources();
+  return NextResponse.json({ resources });
+}
+
+// Read one resource so it can be attached to the next message.
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => null)) as {
+    serverId?: unknown;
+    uri?: unknown;
+  } | null;
+  const serverId = typeof body?.serverId === "string" ? body.serverId : "";
+  const uri = typeof body?.uri === "string" ? body.uri : "";
+
+  if (!serverId || !uri) {
+    return NextResponse.json(
+      { error: "serverId and uri are required." },
+      { status: 400 }
+    );
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const manager = await getUserMcpManager(db, user.id as string);
+  if (!manager) {
+    return NextResponse.json(
+      { error: "MCP is not enabled." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const contents = await manager.readResource(serverId, uri);
+    return NextResponse.json({ serverId, uri, contents });
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error:
+          err instanceof Error && err.message
+            ? err.message
+            : "Failed to read MCP resource.",
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import { McpClientManager } from "@/lib/mcpClient";
+import {
+  normalizeKeyValuePairs,
+  normalizeToolNames,
+  toMcpServerDefinition,
+  type McpServerConfigDoc,
+} from "@/lib/mcpConfig";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+// Upper bound for starting the server, initialize and tools/list.
+const TEST_TIMEOUT_MS = 20_000;
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// Accept an unsaved draft from the MCP tab so a definition can be checked
+// before it is stored.
+function parseDraftServer(
+  id: string,
+  raw: unknown
+): McpServerConfigDoc | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  return {
+    id,
+    label: typeof obj.label === "string" && obj.label ? obj.label : id,
+    enabled: true,
+    type: obj.type === "sse" || obj.type === "http" ? obj.type : "stdio",
+    command: typeof obj.command === "string" ? obj.command.trim() : "",
+    args: Array.isArray(obj.args)
+      ? obj.args.filter((a): a is string => typeof a === "string")
+      : [],
+    env: normalizeKeyValuePairs(obj.env),
+    url: typeof obj.url === "string" ? obj.url.trim() : "",
+    headers: normalizeKeyValuePairs(obj.headers),
+    disabledTools: normalizeToolNames(obj.disabledTools),
+  };
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { id } = params;
+
+  const rawBody = await req.json().catch(() => null);
+  const body =
+    rawBody && typeof rawBody === "object"
+      ? (rawBody as Record<string, unknown>)
+      : ({} as Record<string, unknown>);
+
+  let serverDoc = parseDraftServer(id, body.server);
+
+  if (!serverDoc) {
+    const client = await clientPromise;
+    const db = client.db(DB_NAME);
+    const settingsDoc = (await db
+      .collection("user_settings")
+      .findOne({ userId })) as { mcpServers?: McpServerConfigDoc[] } | null;
+    serverDoc =
+      (Array.isArray(settingsDoc?.mcpServers)
+        ? settingsDoc!.mcpServers.find((s) => s && s.id === id)
+        : undefined) ?? null;
+  }
+
+  if (!serverDoc) {
+    return NextResponse.json(
+      { ok: false, error: "MCP server not found." },
+      { status: 404 }
+    );
+  }
+
+  const definition = toMcpServerDefinition(serverDoc);
+  if (!definition) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error:
+          serverDoc.type === "sse" || serverDoc.type === "http"
+            ? "A server URL is required for this transport."
+            : "A command is required for stdio servers.",
+      },
+      { status: 400 }
+    );
+  }
+
+  // Use a dedicated, unpooled manager so a test never disturbs the
+  // servers backing the user's chats.
+  const manager = new McpClientManager([definition], { captureStderr: true });
+  const startedAt = Date.now();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new Error("Timed out while connecting to the MCP server.")),
+        TEST_TIMEOUT_MS
+      );
+    });
+
+    const { serverInfo, tools } = await Promise.race([
+      (async () => {
+        const serverInfo = await manager.getServerInfo(id);
+        const tools = await manager.listTools(id);
+        return { serverInfo, tools };
+      })(),
+      timeout,
+    ]);
+
+    const disabled = new Set(serverDoc.disabledTools ?? []);
+
+    return NextResponse.json({
+      ok: true,
+      serverInfo,
+      tools: tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description ?? null,
+        inputSchema: tool.inputSchema ?? null,
+        enabled: !disabled.has(tool.name),
+      })),
+      stderr: manager.getStderr(id),
+      durationMs: Date.now() - startedAt,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error:
+          err instanceof Error && err.message
+            ? err.message
+            : "Failed to connect to the MCP server.",
+        stderr: manager.getStderr(id),
+        durationMs: Date.now() - startedAt,
+      },
+      { status: 502 }
+    );
+  } finally {
+    clearTimeout(timeoutId);
+    await manager.close().catch(() => {
+      // Ignore shutdown errors for test connections.
+    });
+  }
+}
@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import type { Db } from "mongodb";
+import { MESSAGES_COLLECTION, type MessageDoc } from "@/lib/messageStore";
+import type {
+  SearchHighlight,
+  SearchHit,
+  SearchResponse,
+} from "@/lib/searchTypes";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_RESULTS = 50;
+const SNIPPET_RADIUS = 80;
+
+interface ConversationTitleDoc {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Text indexes are prefixed with userId so every search is scoped to one
+// user's documents.
+let indexesReady: Promise<void> | null = null;
+
+function ensureSearchIndexes(db: Db): Promise<void> {
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      db
+        .collection("conversations")
+        .createIndex({ userId: 1, title: "text" }, { name: "user_title_text" }),
+      db
+        .collection(MESSAGES_COLLECTION)
+        .createIndex(
+          { userId: 1, content: "text" },
+          { name: "user_content_text" }
+        ),
+    ])
+      .then(() => undefined)
+      .catch((err) => {
+        indexesReady = null;
+        throw err;
+      });
+  }
+  return indexesReady;
+}
+
+// Words of the query without the $text operators (quotes, negation).
+function queryTerms(q: string): string[] {
+  return Array.from(
+    new Set(
+      q
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((term) => !term.startsWith("-"))
+        .map((term) => term.replace(/"/g, ""))
+        .filter((term) => term.length >= 2)
+    )
+  );
+}
+
+// A window of `text` around the first matching term, with the ranges of
+// every term occurrence inside it.
+function buildSnippet(
+  text: string,
+  terms: string[]
+): { snippet: string; highlights: SearchHighlight[] } {
+  const lower = text.toLowerCase();
+  let first = -1;
+  for (const term of terms) {
+    const index = lower.indexOf(term);
+    if (index !== -1 && (first === -1 || index < first)) {
+      first = index;
+    }
+  }
+
+  const start = first === -1 ? 0 : Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(
+    text.length,
+    (first === -1 ? 0 : first) + SNIPPET_RADIUS * 2
+  );
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const body = text.slice(start, end).replace(/\s+/g, " ");
+  const snippet = `${prefix}${body}${suffix}`;
+
+  const highlights: SearchHighlight[] = [];
+  const lowerSnippet = snippet.toLowerCase();
+  for (const term of terms) {
+    let index = lowerSnippet.indexOf(term);
+    while (index !== -1) {
+      highlights.push({ start: index, end: index + term.length });
+      index = lowerSnippet.indexOf(term, index + term.length);
+    }
+  }
+  highlights.sort((a, b) => a.start - b.start);
+
+  // Drop ranges overlapping an earlier one.
+  const merged: SearchHighlight[] = [];
+  for (const range of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && range.start < last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return { snippet, highlights: merged };
+}
+
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+  const { searchParams } = new URL(req.url);
+  const q = (searchParams.get("q") ?? "").trim().slice(0, MAX_QUERY_LENGTH);
+
+  if (!q) {
+    return NextResponse.json({ error: "q is required" }, { status: 400 });
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  await ensureSearchIndexes(db);
+
+  const conversations = db.collection<
+    ConversationTitleDoc & { userId: string }
+  >("conversations");
+
+  const [titleDocs, messageDocs] = await Promise.all([
+    conversations
+      .find(
+        { userId, deletedAt: null, $text: { $search: q } },
+        {
+          projection: {
+            id: 1,
+            title: 1,
+            createdAt: 1,
+            updatedAt: 1,
+            score: { $meta: "textScore" },
+          },
+        }
+      )
+      .sort({ score: { $meta: "textScore" } })
+      .limit(MAX_RESULTS)
+      .toArray(),
+    db
+      .collection<MessageDoc>(MESSAGES_COLLECTION)
+      .find(
+        { userId, $text: { $search: q } },
+        {
+          projection: {
+            id: 1,
+            conversationId: 1,
+            role: 1,
+            content: 1,
+            createdAt: 1,
+            score: { $meta: "textScore" },
+          },
+        }
+      )
+      .sort({ score: { $meta: "textScore" } })
+      .limit(MAX_RESULTS)
+      .toArray(),
+  ]);
+
+  // Titles of the conversations the matching messages belong to. Messages
+  // of trashed conversations get no title and are dropped below.
+  const titles = new Map(titleDocs.map((doc) => [doc.id, doc.title]));
+  const missingIds = Array.from(
+    new Set(messageDocs.map((doc) => doc.conversationId))
+  ).filter((id) => !titles.has(id));
+  if (missingIds.length > 0) {
+    const docs = await conversations
+      .find(
+        { userId, id: { $in: missingIds }, deletedAt: null },
+        { projection: { id: 1, title: 1 } }
+      )
+      .toArray();
+    for (const doc of docs) {
+      titles.set(doc.id, doc.title);
+    }
+  }
+
+  const terms = queryTerms(q);
+  const results: SearchHit[] = [
+    ...titleDocs.map((doc) => ({
+      conversationId: doc.id,
+      conversationTitle: doc.title,
+      messageId: null,
+      ...buildSnippet(doc.title, terms),
+      score: (doc as { score?: number }).score ?? 0,
+      createdAt: doc.updatedAt ?? doc.createdAt,
+    })),
+    ...messageDocs
+      .filter((doc) => titles.has(doc.conversationId))
+      .map((doc) => ({
+        conversationId: doc.conversationId,
+        conversationTitle: titles.get(doc.conversationId) ?? "",
+        messageId: doc.id,
+        role: doc.role,
+        ...buildSnippet(doc.content, terms),
+        score: (doc as { score?: number }).score ?? 0,
+        createdAt: doc.createdAt,
+      })),
+  ]
+    .sort((a, b) => b.score - a.score || b.createdAt - a.createdAt)
+    .slice(0, MAX_RESULTS);
+
+  const response: SearchResponse = { query: q, results };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import clientPromise from "@/lib/mongodb";
+import { loadSharedConversation } from "@/lib/shares";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+interface RouteParams {
+  params: { token: string };
+}
+
+// Public: the transcript behind a share link. No session is required.
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const shared = await loadSharedConversation(db, params.token);
+  if (!shared) {
+    return NextResponse.json(
+      { error: "This link is invalid, expired or was revoked" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(shared, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/pages/api/auth/[...nextauth]";
+import clientPromise from "@/lib/mongodb";
+import { loadAvailableTools, type ToolUserSettings } from "@/lib/tools";
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+export const runtime = "nodejs";
+
+// Tools the user can choose from per conversation.
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  const user = session?.user as { id?: string } | null;
+
+  if (!session || !user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const userId = user.id as string;
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const settingsDoc = (await db
+    .collection("user_settings")
+    .findOne({ userId })) as ToolUserSettings | null;
+
+  const tools = await loadAvailableTools(userId, settingsDoc);
+
+  return NextResponse.json({
+    tools: tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      group: tool.group,
+    })),
+  });
+}
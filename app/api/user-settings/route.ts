@@ -3,22 +3,38 @@ import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/pages/api/auth/[...nextauth]";
 import clientPromise from "@/lib/mongodb";
 import type { ModelConfig } from "@/lib/chatTypes";
+import { mcpClientPool, type McpTransportType } from "@/lib/mcpClient";
+import {
+  normalizeKeyValuePairs,
+  normalizeToolNames,
+  type McpServerConfigDoc,
+} from "@/lib/mcpConfig";
+import {
+  isToolApprovalPolicy,
+  type ToolApprovalPolicy,
+} from "@/lib/toolApproval";
 
 const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
 
-interface McpServerEnvVarDoc {
-  key: string;
-  value: string;
+
+// Older definitions were saved with type "custom" (or none); those are all
+// stdio servers.
+function normalizeMcpTransportType(value: unknown): McpTransportType {
+  return value === "sse" || value === "http" ? value : "stdio";
 }
 
-interface McpServerConfigDoc {
-  id: string;
-  label?: string;
-  enabled?: boolean;
-  type?: string;
-  command?: string;
-  args?: string[];
-  env?: McpServerEnvVarDoc[];
+function normalizeToolPolicies(
+  source: unknown
+): Record<string, ToolApprovalPolicy> {
+  if (!source || typeof source !== "object" || Array.isArray(source)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(source as Record<string, unknown>).filter(
+      (entry): entry is [string, ToolApprovalPolicy] =>
+        !!entry[0] && isToolApprovalPolicy(entry[1])
+    )
+  );
 }
 
 type HttpMethod =
@@ -40,6 +56,7 @@ interface WebClientDomainDoc {
   domain: string;
   enabled?: boolean;
   methods?: HttpMethod[];
+  methodPolicies?: Partial<Record<HttpMethod, ToolApprovalPolicy>>;
   secret?: WebClientSecretDoc;
 }
 
@@ -69,6 +86,15 @@ function isValidHttpMethod(value: unknown): value is HttpMethod {
   return typeof value === "string" && HTTP_METHODS.includes(value as HttpMethod);
 }
 
+function normalizeMethodPolicies(
+  source: unknown
+): Partial<Record<HttpMethod, ToolApprovalPolicy>> {
+  const policies = normalizeToolPolicies(source);
+  return Object.fromEntries(
+    Object.entries(policies).filter(([method]) => isValidHttpMethod(method))
+  );
+}
+
 function sanitize(doc: UserSettingsDoc | null) {
   if (!doc) {
     return {
@@ -85,6 +111,7 @@ function sanitize(doc: UserSettingsDoc | null) {
         domain: string;
         enabled: boolean;
         methods: HttpMethod[];
+        methodPolicies: Partial<Record<HttpMethod, ToolApprovalPolicy>>;
         hasSecret: boolean;
         allowModelAccess: boolean;
       }[],
@@ -106,8 +133,7 @@ function sanitize(doc: UserSettingsDoc | null) {
           const label =
             typeof obj.label === "string" && obj.label ? (obj.label as string) : id;
           const enabled = Boolean(obj.enabled);
-          const type =
-            typeof obj.type === "string" && obj.type ? (obj.type as string) : undefined;
+          const type = normalizeMcpTransportType(obj.type);
           const command =
             typeof obj.command === "string" ? (obj.command as string) : "";
 
@@ -116,20 +142,11 @@ function sanitize(doc: UserSettingsDoc | null) {
             ? argsSource.filter((a): a is string => typeof a === "string")
             : [];
 
-          const envSource = obj.env;
-          const env: McpServerEnvVarDoc[] = Array.isArray(envSource)
-            ? envSource
-                .map((pair): McpServerEnvVarDoc | null => {
-                  if (!pair || typeof pair !== "object") return null;
-                  const p = pair as Record<string, unknown>;
-                  const key = typeof p.key === "string" ? (p.key as string) : "";
-                  const value =
-                    typeof p.value === "string" ? (p.value as string) : "";
-                  if (!key && !value) return null;
-                  return { key, value };
-                })
-                .filter((p): p is McpServerEnvVarDoc => p !== null)
-            : [];
+          const env = normalizeKeyValuePairs(obj.env);
+          const url = typeof obj.url === "string" ? (obj.url as string) : "";
+          const headers = normalizeKeyValuePairs(obj.headers);
+          const disabledTools = normalizeToolNames(obj.disabledTools);
+          const toolPolicies = normalizeToolPolicies(obj.toolPolicies);
 
           return {
             id,
@@ -139,6 +156,10 @@ function sanitize(doc: UserSettingsDoc | null) {
             command,
             args,
             env,
+            url,
+            headers,
+            disabledTools,
+            toolPolicies,
           };
         })
         .filter((s): s is McpServerConfigDoc => s !== null)
@@ -152,6 +173,7 @@ function sanitize(doc: UserSettingsDoc | null) {
               domain: string;
               enabled: boolean;
               methods: HttpMethod[];
+              methodPolicies: Partial<Record<HttpMethod, ToolApprovalPolicy>>;
               hasSecret: boolean;
               allowModelAccess: boolean;
             }
@@ -174,6 +196,8 @@ function sanitize(doc: UserSettingsDoc | null) {
             ? methodsSource.filter((m): m is HttpMethod => isValidHttpMethod(m))
             : (["GET"] as HttpMethod[]);
 
+          const methodPolicies = normalizeMethodPolicies(d.methodPolicies);
+
           const hasSecret = !!(d.secret && d.secret.value);
           const allowModelAccess = !!(d.secret && d.secret.allowModelAccess);
 
@@ -182,6 +206,7 @@ function sanitize(doc: UserSettingsDoc | null) {
             domain: rawDomain,
             enabled,
             methods,
+            methodPolicies,
             hasSecret,
             allowModelAccess,
           };
@@ -192,6 +217,7 @@ function sanitize(doc: UserSettingsDoc | null) {
             domain: string;
             enabled: boolean;
             methods: HttpMethod[];
+            methodPolicies: Partial<Record<HttpMethod, ToolApprovalPolicy>>;
             hasSecret: boolean;
             allowModelAccess: boolean;
           } => d !== null
@@ -324,8 +350,7 @@ export async function PUT(req: NextRequest) {
         const label =
           typeof obj.label === "string" && obj.label ? obj.label : id;
         const enabled = Boolean(obj.enabled);
-        const type =
-          typeof obj.type === "string" && obj.type ? obj.type : undefined;
+        const type = normalizeMcpTransportType(obj.type);
         const command =
           typeof obj.command === "string" ? obj.command : "";
 
@@ -334,21 +359,11 @@ export async function PUT(req: NextRequest) {
           ? argsSource.filter((a): a is string => typeof a === "string")
           : [];
 
-        const envSource = obj.env;
-        const env: McpServerEnvVarDoc[] = Array.isArray(envSource)
-          ? envSource
-              .map((pair): McpServerEnvVarDoc | null => {
-                if (!pair || typeof pair !== "object") return null;
-                const p = pair as Record<string, unknown>;
-                const key =
-                  typeof p.key === "string" ? p.key : "";
-                const value =
-                  typeof p.value === "string" ? p.value : "";
-                if (!key && !value) return null;
-                return { key, value };
-              })
-              .filter((p): p is McpServerEnvVarDoc => p !== null)
-          : [];
+        const env = normalizeKeyValuePairs(obj.env);
+        const url = typeof obj.url === "string" ? obj.url.trim() : "";
+        const headers = normalizeKeyValuePairs(obj.headers);
+        const disabledTools = normalizeToolNames(obj.disabledTools);
+        const toolPolicies = normalizeToolPolicies(obj.toolPolicies);
 
         return {
           id,
@@ -358,6 +373,10 @@ export async function PUT(req: NextRequest) {
           command,
           args,
           env,
+          url,
+          headers,
+          disabledTools,
+          toolPolicies,
         };
       })
       .filter((s): s is McpServerConfigDoc => s !== null);
@@ -420,6 +439,8 @@ export async function PUT(req: NextRequest) {
           ? methodsSource.filter((m): m is HttpMethod => isValidHttpMethod(m))
           : (["GET"] as HttpMethod[]);
 
+        const methodPolicies = normalizeMethodPolicies(obj.methodPolicies);
+
         const previous = existingDomains.find((d) => d.id === id);
         const secretSource = obj.secret as
           | (Partial<WebClientSecretDoc> & Record<string, unknown>)
@@ -450,6 +471,7 @@ export async function PUT(req: NextRequest) {
           domain: rawDomain,
           enabled,
           methods,
+          methodPolicies,
           secret,
         };
       })
@@ -469,6 +491,16 @@ export async function PUT(req: NextRequest) {
     { upsert: true }
   );
 
+  // Restart this user's MCP servers so the next chat picks up the new
+  // definitions (or stops servers that were disabled).
+  if (update.mcpEnabled !== undefined || update.mcpServers !== undefined) {
+    try {
+      await mcpClientPool.reset(userId);
+    } catch (err) {
+      console.error("Failed to reset MCP clients after settings change", err);
+    }
+  }
+
   const saved = (await db
     .collection("user_settings")
     .findOne({ userId })) as UserSettingsDoc | null;
@@ -1,19 +1,64 @@
 "use client";
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
-import ReactMarkdown from "react-markdown";
 import { useSession, signOut } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { DEFAULT_MODELS } from "@/lib/models";
+import {
+  DEFAULT_MODELS,
+  DEFAULT_RESERVED_OUTPUT_TOKENS,
+  resolveContextWindow,
+} from "@/lib/models";
 import type {
+  BulkConversationUpdate,
   ChatMessage,
   Conversation,
+  ConversationLabels,
+  ConversationOrganization,
+  ConversationSummary,
+  ConversationSummaryPage,
   UploadedFile,
   ModelConfig,
   ContextStrategy,
+  ContextSummary,
 } from "@/lib/chatTypes";
 import type { ChatLog } from "@/lib/logTypes";
+import type {
+  SearchHighlight,
+  SearchHit,
+  SearchResponse,
+} from "@/lib/searchTypes";
+import type { ImportResponse } from "@/lib/importTypes";
+import type {
+  ContextPreview,
+  ContextPreviewRequest,
+} from "@/lib/contextPreviewTypes";
+import type { ConversationShare, CreateShareRequest } from "@/lib/shareTypes";
+import type {
+  ChatApprovalRequiredEvent,
+  ChatStreamEvent,
+  ChatUsageEvent,
+} from "@/lib/chatStreamTypes";
+import type {
+  McpPromptMessage,
+  McpPromptSummary,
+  McpResourceContent,
+  McpResourceSummary,
+} from "@/lib/mcpClient";
+import {
+  DEFAULT_MCP_TOOL_POLICY,
+  TOOL_APPROVAL_POLICIES,
+  defaultHttpMethodPolicy,
+  type ToolApprovalPolicy,
+} from "@/lib/toolApproval";
+import {
+  buildParentMap,
+  buildSiblingMap,
+  findLatestLeaf,
+  getActivePath,
+} from "@/lib/messageTree";
 import { v4 as uuid } from "uuid";
+import MessageMarkdown from "./MessageMarkdown";
+import ContextPreviewDetails from "./ContextPreviewDetails";
 
 interface PromptPreset {
   id: string;
@@ -28,26 +73,62 @@ interface McpServerEnvVar {
   value: string;
 }
 
+type McpTransportType = "stdio" | "sse" | "http";
+
 interface McpServerConfig {
   id: string;
   label?: string;
   enabled?: boolean;
-  type?: string;
+  type?: McpTransportType;
   command?: string;
   args?: string[];
   env?: McpServerEnvVar[];
+  url?: string;
+  headers?: McpServerEnvVar[];
+  disabledTools?: string[];
+  toolPolicies?: Record<string, ToolApprovalPolicy>;
 }
 
 interface McpServerConfigState {
   id: string;
   label: string;
   enabled: boolean;
-  type?: string | null;
+  type: McpTransportType;
   command: string;
   args: string[];
   env: McpServerEnvVar[];
+  url: string;
+  headers: McpServerEnvVar[];
+  disabledTools: string[];
+  toolPolicies: Record<string, ToolApprovalPolicy>;
+}
+
+interface McpDiscoveredTool {
+  name: string;
+  description: string | null;
+  inputSchema: Record<string, unknown> | null;
 }
 
+interface McpServerTestResult {
+  ok: boolean;
+  error?: string;
+  serverInfo?: {
+    name?: string;
+    version?: string;
+    capabilities?: Record<string, unknown>;
+    instructions?: string;
+  };
+  tools?: McpDiscoveredTool[];
+  stderr?: string;
+  durationMs?: number;
+}
+
+const MCP_TRANSPORT_LABELS: Record<McpTransportType, string> = {
+  stdio: "stdio (local process)",
+  http: "Streamable HTTP",
+  sse: "HTTP + SSE (legacy)",
+};
+
 type HttpMethod =
   | "GET"
   | "HEAD"
@@ -62,6 +143,7 @@ interface WebClientDomainState {
   domain: string;
   enabled: boolean;
   methods: HttpMethod[];
+  methodPolicies: Partial<Record<HttpMethod, ToolApprovalPolicy>>;
   hasSecret: boolean;
   allowModelAccess: boolean;
 }
@@ -92,6 +174,52 @@ interface UserSettingsState {
   webClientDomains: WebClientDomainState[];
 }
 
+const TOOL_APPROVAL_LABELS: Record<ToolApprovalPolicy, string> = {
+  auto: "Auto",
+  ask: "Ask",
+  deny: "Deny",
+};
+
+// A run paused server-side until the user approves or rejects its calls.
+interface PendingApprovalState extends Omit<ChatApprovalRequiredEvent, "type"> {
+  decisions: Record<string, "approve" | "reject">;
+}
+
+// A tool the user can enable per conversation (GET /api/tools).
+interface AvailableToolInfo {
+  name: string;
+  description: string;
+  group: string;
+}
+
+interface ToolTraceEntry {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: "running" | "ok" | "error";
+  error?: string;
+  durationMs?: number;
+}
+
+function toolTraceEmoji(name: string): string {
+  if (name === "get_scratchpad" || name === "set_scratchpad") return "📝";
+  if (name === "get_utc_time") return "🕒";
+  if (name === "http_request") return "🌐";
+  if (name.startsWith("mcp_")) return "🔌";
+  return "🛠️";
+}
+
+function summarizeToolArgs(args: Record<string, unknown>): string {
+  const entries = Object.entries(args).filter(([key]) => key !== "content");
+  if (entries.length === 0) return "";
+  const text = entries
+    .map(([key, value]) =>
+      `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`
+    )
+    .join(", ");
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
 const PRESETS_STORAGE_KEY = "llm-chat-prompt-presets";
 
 function loadPresets(): PromptPreset[] {
@@ -120,11 +248,229 @@ function formatDefaultConversationTitle(date: Date): string {
   return `Chat ${mm}-${dd}-${yyyy} ${hh}:${min}`;
 }
 
+// After a version conflict the server copy wins. Messages are not part of
+// it (they are loaded separately), so the loaded ones are kept.
+function mergeServerConversation(
+  server: Conversation,
+  local: Conversation | undefined
+): Conversation {
+  if (!local) return server;
+  return {
+    ...server,
+    messages: local.messages,
+    olderMessagesCursor: local.olderMessagesCursor,
+  };
+}
+
+function toConversationSummary(conv: Conversation): ConversationSummary {
+  return {
+    id: conv.id,
+    title: conv.title,
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+    messageCount: conv.messages.length,
+    modelId: conv.settings.modelId,
+    forkedFrom: conv.forkedFrom,
+    folder: conv.folder ?? null,
+    tags: conv.tags ?? [],
+    pinned: conv.pinned ?? false,
+    archived: conv.archived ?? false,
+    deletedAt: conv.deletedAt ?? null,
+  };
+}
+
+interface ConversationFilter {
+  // Empty for every tag.
+  tag: string;
+  archived: boolean;
+  // Lists the trash instead; the other fields are ignored.
+  trash: boolean;
+}
+
+function conversationListUrl(
+  filter: ConversationFilter,
+  cursor: string | null
+): string {
+  const params = new URLSearchParams();
+  if (cursor) params.set("cursor", cursor);
+  if (filter.trash) params.set("trash", "true");
+  if (filter.tag) params.set("tag", filter.tag);
+  if (filter.archived) params.set("archived", "true");
+  const query = params.toString();
+  return query ? `/api/conversations?${query}` : "/api/conversations";
+}
+
+function matchesConversationFilter(
+  summary: ConversationSummary,
+  filter: ConversationFilter
+): boolean {
+  if (filter.trash || summary.deletedAt) {
+    return filter.trash && Boolean(summary.deletedAt);
+  }
+  if ((summary.archived ?? false) !== filter.archived) return false;
+  return !filter.tag || (summary.tags ?? []).includes(filter.tag);
+}
+
+interface SidebarGroup {
+  key: string;
+  // Null when there is a single unnamed group.
+  label: string | null;
+  conversations: ConversationSummary[];
+}
+
+// Pinned conversations first, then one group per folder, then the rest.
+function groupSidebarConversations(
+  summaries: ConversationSummary[]
+): SidebarGroup[] {
+  const pinned = summaries.filter((c) => c.pinned);
+  const folders = new Map<string, ConversationSummary[]>();
+  const rest: ConversationSummary[] = [];
+  for (const summary of summaries) {
+    if (summary.pinned) continue;
+    if (summary.folder) {
+      folders.set(summary.folder, [
+        ...(folders.get(summary.folder) ?? []),
+        summary,
+      ]);
+    } else {
+      rest.push(summary);
+    }
+  }
+
+  const groups: SidebarGroup[] = [];
+  if (pinned.length > 0) {
+    groups.push({ key: "pinned", label: "Pinned", conversations: pinned });
+  }
+  for (const name of Array.from(folders.keys()).sort((a, b) =>
+    a.localeCompare(b)
+  )) {
+    groups.push({
+      key: `folder:${name}`,
+      label: name,
+      conversations: folders.get(name) ?? [],
+    });
+  }
+  if (rest.length > 0) {
+    groups.push({
+      key: "rest",
+      label: groups.length > 0 ? "Other" : null,
+      conversations: rest,
+    });
+  }
+  return groups;
+}
+
+// Union of two message lists by id, oldest first.
+function mergeLoadedMessages(
+  current: ChatMessage[],
+  incoming: ChatMessage[]
+): ChatMessage[] {
+  const byId = new Map(current.map((m) => [m.id, m]));
+  for (const m of incoming) byId.set(m.id, m);
+  return Array.from(byId.values()).sort((a, b) =>
+    a.createdAt !== b.createdAt
+      ? a.createdAt - b.createdAt
+      : a.id < b.id
+      ? -1
+      : a.id > b.id
+      ? 1
+      : 0
+  );
+}
+
+function renderHighlightedSnippet(
+  snippet: string,
+  highlights: SearchHighlight[]
+): React.ReactNode[] {
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  highlights.forEach((h, i) => {
+    if (h.start > pos) parts.push(snippet.slice(pos, h.start));
+    parts.push(
+      <mark key={i} className="bg-amber-400/30 text-amber-100 rounded-sm">
+        {snippet.slice(h.start, h.end)}
+      </mark>
+    );
+    pos = h.end;
+  });
+  if (pos < snippet.length) parts.push(snippet.slice(pos));
+  return parts;
+}
+
+// Request fields shared by every /api/chat call of a conversation.
+function buildChatRequestSettings(conv: Conversation) {
+  return {
+    conversationId: conv.id,
+    modelId: conv.settings.modelId,
+    systemPrompt: conv.settings.systemPrompt,
+    reflectorPrompt: conv.settings.reflectorPrompt,
+    plannerPrompt: conv.settings.plannerPrompt,
+    contextConfig: conv.settings.context,
+    temperature: conv.settings.temperature,
+    stream: conv.settings.stream,
+    enabledTools: conv.settings.enabledTools,
+  };
+}
+
 export default function HomePage() {
   const { data: session, status } = useSession();
   const router = useRouter();
 
+  // Conversations whose messages have been loaded. The sidebar lists
+  // summaries, fetched page by page.
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationSummaries, setConversationSummaries] = useState<
+    ConversationSummary[]
+  >([]);
+  const [conversationsCursor, setConversationsCursor] = useState<
+    string | null
+  >(null);
+  const [loadingMoreConversations, setLoadingMoreConversations] =
+    useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [conversationFilter, setConversationFilter] =
+    useState<ConversationFilter>({
+      tag: "",
+      archived: false,
+      trash: false,
+    });
+  const [conversationLabels, setConversationLabels] =
+    useState<ConversationLabels>({ folders: [], tags: [] });
+  // Null when not selecting conversations for a bulk action.
+  const [selectedConversationIds, setSelectedConversationIds] = useState<
+    string[] | null
+  >(null);
+  const [bulkLabelDraft, setBulkLabelDraft] = useState("");
+  const [organizingConversationId, setOrganizingConversationId] = useState<
+    string | null
+  >(null);
+  const [folderDraft, setFolderDraft] = useState("");
+  const [tagsDraft, setTagsDraft] = useState("");
+  const [exportIncludeExtras, setExportIncludeExtras] = useState(false);
+  // Share links of the conversation open in the ⋯ panel.
+  const [shareLinks, setShareLinks] = useState<ConversationShare[]>([]);
+  const [shareDraft, setShareDraft] = useState<CreateShareRequest>({
+    expiresInDays: 7,
+    includeSystemMessages: false,
+    includeFilePreviews: false,
+  });
+  const [copiedShareToken, setCopiedShareToken] = useState<string | null>(
+    null
+  );
+  const [importKeepBranches, setImportKeepBranches] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  // Bumped to reload the conversation list, e.g. after an import.
+  const [conversationListVersion, setConversationListVersion] = useState(0);
+  const [searchQuery, setSearchQuery] = useState("");
+  // Null while no search is active; the sidebar then lists conversations.
+  const [searchResults, setSearchResults] = useState<SearchHit[] | null>(
+    null
+  );
+  const [searching, setSearching] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
   const [activeId, setActiveId] = useState<string | null>(null);
   const [loadingConversations, setLoadingConversations] = useState(false);
 
@@ -135,6 +481,16 @@ export default function HomePage() {
 
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
 
+  // MCP resources / prompt templates offered in the composer.
+  const [showMcpPicker, setShowMcpPicker] = useState(false);
+  const [mcpPickerLoading, setMcpPickerLoading] = useState(false);
+  const [mcpPickerError, setMcpPickerError] = useState<string | null>(null);
+  const [mcpResources, setMcpResources] = useState<McpResourceSummary[]>([]);
+  const [mcpPrompts, setMcpPrompts] = useState<McpPromptSummary[]>([]);
+  const [mcpPromptArgs, setMcpPromptArgs] = useState<
+    Record<string, Record<string, string>>
+  >({});
+
   const [presets, setPresets] = useState<PromptPreset[]>([]);
   const [selectedPresetId, setSelectedPresetId] = useState<string>("");
   const [presetNameInput, setPresetNameInput] = useState("");
@@ -164,11 +520,36 @@ export default function HomePage() {
 
   const [scratchpad, setScratchpad] = useState<string>("");
   const [scratchpadVisible, setScratchpadVisible] = useState(false);
+  const [contextSummaryVisible, setContextSummaryVisible] = useState(false);
+  const [contextSummaryDraft, setContextSummaryDraft] = useState("");
+  const [contextPreviewVisible, setContextPreviewVisible] = useState(false);
+  const [contextPreview, setContextPreview] = useState<ContextPreview | null>(
+    null
+  );
+  const [contextPreviewError, setContextPreviewError] = useState<
+    string | null
+  >(null);
 
-  const [toolsUsedThisRun, setToolsUsedThisRun] = useState<string[]>([]);
+  const [runTrace, setRunTrace] = useState<ToolTraceEntry[]>([]);
+  const [runUsage, setRunUsage] = useState<ChatUsageEvent | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
   const [currentAssistantMessageId, setCurrentAssistantMessageId] = useState<
     string | null
   >(null);
+  // Last conversation version confirmed by the server, and the chain of
+  // in-flight updates, per conversation id.
+  const conversationVersionsRef = useRef<Map<string, number>>(new Map());
+  const persistQueueRef = useRef<Map<string, Promise<void>>>(new Map());
+  // User message being edited for "edit & resend".
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(
+    null
+  );
+  const [editDraft, setEditDraft] = useState("");
+  const [pendingApproval, setPendingApproval] =
+    useState<PendingApprovalState | null>(null);
+  const [availableTools, setAvailableTools] = useState<AvailableToolInfo[]>(
+    []
+  );
 
   const abortControllerRef = useRef<AbortController | null>(null);
 
@@ -184,6 +565,12 @@ export default function HomePage() {
   const [mcpServersDraft, setMcpServersDraft] = useState<McpServerConfigState[]>(
     []
   );
+  const [mcpTestResults, setMcpTestResults] = useState<
+    Record<string, McpServerTestResult>
+  >({});
+  const [mcpTestingIds, setMcpTestingIds] = useState<Set<string>>(
+    () => new Set()
+  );
 
   const [webClientEnabledDraft, setWebClientEnabledDraft] = useState(false);
   const [webClientEnforceWhitelistDraft, setWebClientEnforceWhitelistDraft] =
@@ -244,18 +631,23 @@ export default function HomePage() {
     const load = async () => {
       setLoadingConversations(true);
       try {
-        const res = await fetch("/api/conversations");
+        const res = await fetch(conversationListUrl(conversationFilter, null));
         if (!res.ok) {
           if (res.status === 401) {
             router.replace("/auth/login");
           }
           return;
         }
-        const data = (await res.json()) as Conversation[];
+        const data = (await res.json()) as ConversationSummaryPage;
         if (cancelled) return;
-        if (data.length > 0) {
-          setConversations(data);
-          setActiveId(data[0].id);
+        const filtered =
+          conversationFilter.tag ||
+          conversationFilter.archived ||
+          conversationFilter.trash;
+        if (data.conversations.length > 0 || filtered) {
+          setConversationSummaries(data.conversations);
+          setConversationsCursor(data.nextCursor);
+          setActiveId((prev) => prev ?? data.conversations[0]?.id ?? null);
         } else {
           const resNew = await fetch("/api/conversations", {
             method: "POST",
@@ -263,19 +655,11 @@ export default function HomePage() {
             body: JSON.stringify({}),
           });
 
-          const toolsHeader =
-            resNew.headers.get("x-tools-used") || resNew.headers.get("X-Tools-Used");
-          if (toolsHeader) {
-            const runTools = toolsHeader
-              .split(",")
-              .map((t) => t.trim())
-              .filter(Boolean);
-            setToolsUsedThisRun(runTools);
-          }
           if (resNew.ok) {
             const conv = (await resNew.json()) as Conversation;
             if (!cancelled) {
               setConversations([conv]);
+              setConversationSummaries([toConversationSummary(conv)]);
               setActiveId(conv.id);
               setPendingTitleFocusId(conv.id);
             }
@@ -295,26 +679,285 @@ export default function HomePage() {
     return () => {
       cancelled = true;
     };
-  }, [status, router]);
+  }, [status, router, conversationFilter, conversationListVersion]);
+
+  const loadConversationLabels = useCallback(async () => {
+    try {
+      const res = await fetch("/api/conversations/labels");
+      if (!res.ok) return;
+      setConversationLabels((await res.json()) as ConversationLabels);
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status !== "authenticated") return;
+    void loadConversationLabels();
+  }, [status, loadConversationLabels]);
+
+  // Messages are loaded when a conversation is first selected.
+  useEffect(() => {
+    if (!activeId || conversations.some((c) => c.id === activeId)) return;
+
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch(
+          `/api/conversations/${encodeURIComponent(activeId)}`
+        );
+        if (!res.ok) return;
+        const conv = (await res.json()) as Conversation;
+        if (cancelled) return;
+        setConversations((prev) =>
+          prev.some((c) => c.id === conv.id) ? prev : [...prev, conv]
+        );
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId, conversations]);
+
+  const loadMoreConversations = useCallback(async () => {
+    if (!conversationsCursor || loadingMoreConversations) return;
+    setLoadingMoreConversations(true);
+    try {
+      const res = await fetch(
+        conversationListUrl(conversationFilter, conversationsCursor)
+      );
+      if (!res.ok) return;
+      const data = (await res.json()) as ConversationSummaryPage;
+      setConversationSummaries((prev) => [
+        ...prev,
+        ...data.conversations.filter(
+          (s) => !prev.some((existing) => existing.id === s.id)
+        ),
+      ]);
+      setConversationsCursor(data.nextCursor);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoadingMoreConversations(false);
+    }
+  }, [conversationFilter, conversationsCursor, loadingMoreConversations]);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
+        if (!res.ok) return;
+        const data = (await res.json()) as SearchResponse;
+        if (!cancelled) setSearchResults(data.results);
+      } catch (err) {
+        console.error(err);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
+  // Loaded conversations are newer than their summaries. They may only
+  // hold their latest messages, so the stored count is kept as a floor.
+  const sidebarConversations = useMemo(
+    () =>
+      conversationSummaries.map((summary) => {
+        const loaded = conversations.find((c) => c.id === summary.id);
+        if (!loaded) return summary;
+        const current = toConversationSummary(loaded);
+        return {
+          ...current,
+          messageCount: Math.max(summary.messageCount, current.messageCount),
+        };
+      }),
+    [conversationSummaries, conversations]
+  );
+  const sidebarGroups = useMemo(
+    () => groupSidebarConversations(sidebarConversations),
+    [sidebarConversations]
+  );
 
   const activeConversation =
     conversations.find((c) => c.id === activeId) ?? null;
 
+  // The branch being shown; see lib/messageTree.ts.
+  const activeMessages = useMemo(
+    () =>
+      activeConversation
+        ? getActivePath(
+            activeConversation.messages,
+            activeConversation.activeLeafId
+          )
+        : [],
+    [activeConversation]
+  );
+  const activeParentMap = useMemo(
+    () => buildParentMap(activeConversation?.messages ?? []),
+    [activeConversation]
+  );
+  const activeSiblingMap = useMemo(
+    () => buildSiblingMap(activeConversation?.messages ?? []),
+    [activeConversation]
+  );
+
+  // The summary may be refreshed by a run while its panel is open.
+  const activeContextSummary = activeConversation?.contextSummary ?? null;
+  useEffect(() => {
+    setContextSummaryDraft(activeContextSummary?.content ?? "");
+  }, [activeContextSummary]);
+
+  // What the next turn would send, refreshed while the inspector is open
+  // and the draft, settings or branch change.
+  const contextPreviewBody = useMemo(() => {
+    if (!contextPreviewVisible || !activeConversation) return null;
+    const body: ContextPreviewRequest = {
+      ...buildChatRequestSettings(activeConversation),
+      content: input,
+      attachments: uploadedFiles,
+    };
+    return JSON.stringify({
+      ...body,
+      // Not read by the server; refreshes after a turn or branch switch.
+      leaf: activeConversation.activeLeafId,
+      summaryAt: activeContextSummary?.updatedAt ?? null,
+    });
+  }, [
+    contextPreviewVisible,
+    activeConversation,
+    activeContextSummary,
+    input,
+    uploadedFiles,
+  ]);
+
+  useEffect(() => {
+    if (!contextPreviewBody || isSending) return;
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const res = await fetch("/api/context/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: contextPreviewBody,
+        });
+        if (!res.ok) {
+          const data = (await res.json().catch(() => null)) as {
+            error?: string;
+          } | null;
+          throw new Error(data?.error || `Preview failed (${res.status})`);
+        }
+        const data = (await res.json()) as ContextPreview;
+        if (!cancelled) {
+          setContextPreview(data);
+          setContextPreviewError(null);
+        }
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) {
+          setContextPreviewError(
+            err instanceof Error ? err.message : "Preview failed"
+          );
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [contextPreviewBody, isSending]);
+
   const lastMessage =
-    activeConversation && activeConversation.messages.length > 0
-      ? activeConversation.messages[activeConversation.messages.length - 1]
+    activeMessages.length > 0
+      ? activeMessages[activeMessages.length - 1]
       : null;
 
   const lastMessageSignature = lastMessage
     ? `${lastMessage.id}:${lastMessage.content.length}`
     : "";
 
+  // Only a new last message scrolls to the bottom, so loading older
+  // messages above keeps the position.
   useEffect(() => {
-    if (!activeConversation) return;
+    if (!activeId) return;
     const el = messagesContainerRef.current;
     if (!el) return;
     el.scrollTop = el.scrollHeight;
-  }, [activeConversation, lastMessageSignature]);
+  }, [activeId, lastMessageSignature]);
+
+  // Runs after the scroll to the bottom above, so a search hit stays in
+  // view when its conversation opens.
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const el = document.getElementById(`message-${highlightedMessageId}`);
+    if (!el) return;
+    el.scrollIntoView({ block: "center" });
+    const timer = window.setTimeout(() => setHighlightedMessageId(null), 4000);
+    return () => window.clearTimeout(timer);
+  }, [highlightedMessageId, activeMessages]);
+
+  const loadOlderMessages = useCallback(async () => {
+    const cursor = activeConversation?.olderMessagesCursor;
+    if (!activeConversation || !cursor || loadingOlderMessages) return;
+    const convId = activeConversation.id;
+    const el = messagesContainerRef.current;
+    const previousHeight = el?.scrollHeight ?? 0;
+
+    setLoadingOlderMessages(true);
+    try {
+      const res = await fetch(
+        `/api/conversations/${encodeURIComponent(
+          convId
+        )}/messages?before=${encodeURIComponent(cursor)}`
+      );
+      if (!res.ok) return;
+      const data = (await res.json()) as {
+        messages: ChatMessage[];
+        nextCursor: string | null;
+      };
+      setConversations((prev) =>
+        prev.map((c) => {
+          if (c.id !== convId) return c;
+          const known = new Set(c.messages.map((m) => m.id));
+          return {
+            ...c,
+            messages: [
+              ...data.messages.filter((m) => !known.has(m.id)),
+              ...c.messages,
+            ],
+            olderMessagesCursor: data.nextCursor,
+          };
+        })
+      );
+      // Keep the messages on screen in place after prepending.
+      window.requestAnimationFrame(() => {
+        if (el) {
+          el.scrollTop += el.scrollHeight - previousHeight;
+        }
+      });
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  }, [activeConversation, loadingOlderMessages]);
 
   useEffect(() => {
     if (!pendingTitleFocusId) return;
@@ -323,7 +966,42 @@ export default function HomePage() {
     el.focus();
     el.select();
     setPendingTitleFocusId(null);
-  }, [pendingTitleFocusId, conversations.length]);
+  }, [pendingTitleFocusId, conversationSummaries.length]);
+
+  // Take the stored state of a loaded conversation, replacing its
+  // local-only messages, e.g. after a run was stopped or a change made
+  // elsewhere.
+  const reloadConversation = useCallback(
+    async (conversationId: string, localIds = new Set<string>()) => {
+      try {
+        const res = await fetch(
+          `/api/conversations/${encodeURIComponent(conversationId)}`
+        );
+        if (!res.ok) {
+          console.error("Failed to reload conversation");
+          return;
+        }
+        const conv = (await res.json()) as Conversation;
+        conversationVersionsRef.current.set(conv.id, conv.version ?? 0);
+        setConversations((prev) =>
+          prev.map((c) =>
+            c.id === conv.id
+              ? {
+                  ...mergeServerConversation(conv, c),
+                  messages: mergeLoadedMessages(
+                    c.messages.filter((m) => !localIds.has(m.id)),
+                    conv.messages
+                  ),
+                }
+              : c
+          )
+        );
+      } catch (err) {
+        console.error(err);
+      }
+    },
+    []
+  );
 
   useEffect(() => {
     if (!activeConversation) return;
@@ -335,10 +1013,10 @@ export default function HomePage() {
 
     if (activeConversation.title !== defaultTitle) return;
 
-    const userMessages = activeConversation.messages.filter(
+    const userMessages = activeMessages.filter(
       (m) => m.role === "user"
     );
-    const assistantMessages = activeConversation.messages.filter(
+    const assistantMessages = activeMessages.filter(
       (m) => m.role === "assistant"
     );
 
@@ -351,7 +1029,7 @@ export default function HomePage() {
 
     void (async () => {
       try {
-        const lastMessages = activeConversation.messages.slice(-8);
+        const lastMessages = activeMessages.slice(-8);
         const res = await fetch(
           `/api/conversations/${encodeURIComponent(convId)}/title`,
           {
@@ -364,10 +1042,25 @@ export default function HomePage() {
           }
         );
         if (!res.ok) return;
-        const data = (await res.json()) as { title?: string | null };
+        const data = (await res.json()) as {
+          title?: string | null;
+          version?: number | null;
+        };
         const newTitle = data.title?.trim();
         if (!newTitle) return;
 
+        // The title bumped the version this tab knows only if nothing was
+        // saved in between; otherwise load what was, as after a 409.
+        const localVersion =
+          conversationVersionsRef.current.get(convId) ??
+          activeConversation.version ??
+          0;
+        if (data.version !== localVersion + 1) {
+          void reloadConversation(convId);
+          return;
+        }
+        const version = data.version;
+        conversationVersionsRef.current.set(convId, version);
         setConversations((prev) =>
           prev.map((c) =>
             c.id === convId
@@ -375,6 +1068,7 @@ export default function HomePage() {
                   ...c,
                   title: newTitle,
                   updatedAt: Date.now(),
+                  version,
                 }
               : c
           )
@@ -383,7 +1077,12 @@ export default function HomePage() {
         console.error("Failed to auto-summarize conversation title", err);
       }
     })();
-  }, [activeConversation, setConversations]);
+  }, [
+    activeConversation,
+    activeMessages,
+    setConversations,
+    reloadConversation,
+  ]);
 
   useEffect(() => {
     if (status !== "authenticated") return;
@@ -480,7 +1179,7 @@ export default function HomePage() {
           id: server.id,
           label: server.label ?? server.id,
           enabled: server.enabled ?? false,
-          type: server.type ?? null,
+          type: server.type ?? "stdio",
           command: server.command ?? "",
           args: Array.isArray(server.args) ? server.args : [],
           env: Array.isArray(server.env)
@@ -489,6 +1188,17 @@ export default function HomePage() {
                 value: pair.value ?? "",
               }))
             : [],
+          url: server.url ?? "",
+          headers: Array.isArray(server.headers)
+            ? server.headers.map((pair) => ({
+                key: pair.key ?? "",
+                value: pair.value ?? "",
+              }))
+            : [],
+          disabledTools: Array.isArray(server.disabledTools)
+            ? server.disabledTools
+            : [],
+          toolPolicies: server.toolPolicies ?? {},
         }))
       : [];
 
@@ -509,6 +1219,7 @@ export default function HomePage() {
             Array.isArray(domain.methods) && domain.methods.length > 0
               ? domain.methods
               : (["GET"] as HttpMethod[]),
+          methodPolicies: domain.methodPolicies ?? {},
           secretInput: "",
         }))
       : [];
@@ -532,6 +1243,18 @@ export default function HomePage() {
     return result;
   }, [userSettings]);
 
+  const toolsUsedThisRun = useMemo(() => {
+    const names: string[] = [];
+    for (const entry of runTrace) {
+      const name =
+        entry.name === "get_scratchpad" || entry.name === "set_scratchpad"
+          ? "scratchpad"
+          : entry.name;
+      if (!names.includes(name)) names.push(name);
+    }
+    return names;
+  }, [runTrace]);
+
   const selectedModel =
     activeConversation &&
     allModels.find((m) => m.id === activeConversation.settings.modelId);
@@ -643,10 +1366,14 @@ export default function HomePage() {
         id,
         label: "New MCP server",
         enabled: true,
-        type: "custom",
+        type: "stdio",
         command: "",
         args: [],
         env: [],
+        url: "",
+        headers: [],
+        disabledTools: [],
+        toolPolicies: {},
       },
     ]);
   };
@@ -671,10 +1398,12 @@ export default function HomePage() {
     }));
   };
 
-  const handleAddMcpEnvVar = (id: string) => {
+  // Key-value rows are used both for stdio environment variables ("env")
+  // and for HTTP headers sent to remote servers ("headers").
+  const handleAddMcpEnvVar = (id: string, list: "env" | "headers" = "env") => {
     handleUpdateMcpServer(id, (server) => ({
       ...server,
-      env: [...server.env, { key: "", value: "" }],
+      [list]: [...server[list], { key: "", value: "" }],
     }));
   };
 
@@ -682,28 +1411,94 @@ export default function HomePage() {
     id: string,
     index: number,
     field: "key" | "value",
-    value: string
+    value: string,
+    list: "env" | "headers" = "env"
   ) => {
     handleUpdateMcpServer(id, (server) => {
-      const nextEnv = server.env.map((pair, i) =>
+      const nextPairs = server[list].map((pair, i) =>
         i === index ? { ...pair, [field]: value } : pair
       );
       return {
         ...server,
-        env: nextEnv,
+        [list]: nextPairs,
       };
     });
   };
 
-  const handleRemoveMcpEnvVar = (id: string, index: number) => {
+  const handleRemoveMcpEnvVar = (
+    id: string,
+    index: number,
+    list: "env" | "headers" = "env"
+  ) => {
     handleUpdateMcpServer(id, (server) => ({
       ...server,
-      env: server.env.filter((_, i) => i !== index),
+      [list]: server[list].filter((_, i) => i !== index),
     }));
   };
 
   const handleDeleteMcpServer = (id: string) => {
     setMcpServersDraft((prev) => prev.filter((server) => server.id !== id));
+    setMcpTestResults((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  // Tests the draft definition (saved or not) and lists the tools it exposes.
+  const handleTestMcpServer = async (server: McpServerConfigState) => {
+    setMcpTestingIds((prev) => new Set(prev).add(server.id));
+    try {
+      const res = await fetch(
+        `/api/mcp/servers/${encodeURIComponent(server.id)}/test`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ server }),
+        }
+      );
+      const data = (await res.json().catch(() => null)) as
+        | McpServerTestResult
+        | null;
+      setMcpTestResults((prev) => ({
+        ...prev,
+        [server.id]: data ?? {
+          ok: false,
+          error: `Test request failed: ${res.status}`,
+        },
+      }));
+    } catch {
+      setMcpTestResults((prev) => ({
+        ...prev,
+        [server.id]: { ok: false, error: "Test request failed." },
+      }));
+    } finally {
+      setMcpTestingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(server.id);
+        return next;
+      });
+    }
+  };
+
+  const handleChangeMcpToolPolicy = (
+    id: string,
+    toolName: string,
+    policy: ToolApprovalPolicy
+  ) => {
+    handleUpdateMcpServer(id, (server) => ({
+      ...server,
+      toolPolicies: { ...server.toolPolicies, [toolName]: policy },
+    }));
+  };
+
+  const handleToggleMcpTool = (id: string, toolName: string, enabled: boolean) => {
+    handleUpdateMcpServer(id, (server) => ({
+      ...server,
+      disabledTools: enabled
+        ? server.disabledTools.filter((name) => name !== toolName)
+        : [...server.disabledTools.filter((name) => name !== toolName), toolName],
+    }));
   };
 
   const handleSaveMcpSettings = async () => {
@@ -736,6 +1531,7 @@ export default function HomePage() {
         domain: "",
         enabled: true,
         methods: (["GET"] as HttpMethod[]),
+        methodPolicies: {},
         hasSecret: false,
         allowModelAccess: false,
         secretInput: "",
@@ -777,6 +1573,17 @@ export default function HomePage() {
     });
   };
 
+  const handleChangeWebClientMethodPolicy = (
+    id: string,
+    method: HttpMethod,
+    policy: ToolApprovalPolicy
+  ) => {
+    handleUpdateWebClientDomain(id, (domain) => ({
+      ...domain,
+      methodPolicies: { ...domain.methodPolicies, [method]: policy },
+    }));
+  };
+
   const handleSaveWebClientSettings = async () => {
     setUserSettingsError(null);
     try {
@@ -811,11 +1618,18 @@ export default function HomePage() {
               }
             : undefined;
 
+          const methodPolicies = Object.fromEntries(
+            Object.entries(domain.methodPolicies).filter(([method]) =>
+              methodsToSend.includes(method as HttpMethod)
+            )
+          ) as Partial<Record<HttpMethod, ToolApprovalPolicy>>;
+
           return {
             id: domain.id,
             domain: trimmedDomain,
             enabled: domain.enabled,
             methods: methodsToSend,
+            methodPolicies,
             ...(secret ? { secret } : {}),
           };
         })
@@ -827,6 +1641,7 @@ export default function HomePage() {
               domain: string;
               enabled: boolean;
               methods: HttpMethod[];
+              methodPolicies: Partial<Record<HttpMethod, ToolApprovalPolicy>>;
               secret?: { allowModelAccess?: boolean; value?: string };
             }
         );
@@ -851,17 +1666,76 @@ export default function HomePage() {
     }
   };
 
-  const persistConversation = useCallback(async (conv: Conversation) => {
-    try {
-      await fetch(`/api/conversations/${conv.id}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(conv),
-      });
-    } catch {
-      console.error("Failed to persist conversation");
-    }
-  }, []);
+  // Saves title and settings with the last version the server confirmed.
+  // Updates of one conversation are sent one after another. On a 409 the
+  // server copy is loaded and, when `rebase` is given, the local edit is
+  // reapplied on top of it and sent once more.
+  const persistConversation = useCallback(
+    (
+      conv: Conversation,
+      rebase?: (server: Conversation) => Conversation
+    ): Promise<void> => {
+      const send = async (target: Conversation, allowRetry: boolean) => {
+        const res = await fetch(`/api/conversations/${target.id}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            title: target.title,
+            settings: target.settings,
+            folder: target.folder,
+            tags: target.tags,
+            pinned: target.pinned,
+            archived: target.archived,
+            activeLeafId: target.activeLeafId,
+            updatedAt: target.updatedAt,
+            version:
+              conversationVersionsRef.current.get(target.id) ??
+              target.version ??
+              0,
+          }),
+        });
+
+        if (res.ok) {
+          const data = (await res.json()) as { version: number };
+          conversationVersionsRef.current.set(target.id, data.version);
+          setConversations((prev) =>
+            prev.map((c) =>
+              c.id === target.id ? { ...c, version: data.version } : c
+            )
+          );
+          return;
+        }
+
+        if (res.status !== 409) {
+          throw new Error(`Conversation update failed: ${res.status}`);
+        }
+
+        const data = (await res.json()) as { conversation: Conversation };
+        const server = data.conversation;
+        conversationVersionsRef.current.set(server.id, server.version ?? 0);
+        const next = rebase && allowRetry ? rebase(server) : server;
+        setConversations((prev) =>
+          prev.map((c) =>
+            c.id === server.id ? mergeServerConversation(next, c) : c
+          )
+        );
+        if (rebase && allowRetry) {
+          await send(next, false);
+        }
+      };
+
+      const previous =
+        persistQueueRef.current.get(conv.id) ?? Promise.resolve();
+      const current = previous
+        .then(() => send(conv, true))
+        .catch(() => {
+          console.error("Failed to persist conversation");
+        });
+      persistQueueRef.current.set(conv.id, current);
+      return current;
+    },
+    []
+  );
 
   const handleNewConversation = async () => {
     try {
@@ -876,6 +1750,10 @@ export default function HomePage() {
       }
       const conv = (await res.json()) as Conversation;
       setConversations((prev) => [conv, ...prev]);
+      setConversationSummaries((prev) => [
+        toConversationSummary(conv),
+        ...prev,
+      ]);
       setActiveId(conv.id);
       setInput("");
       setUploadedFiles([]);
@@ -887,20 +1765,391 @@ export default function HomePage() {
     }
   };
 
-  const handleDeleteConversation = async (id: string) => {
+  // File conversations through POST /api/conversations/bulk. This also
+  // works for conversations whose messages are not loaded yet.
+  const organizeConversations = async (
+    ids: string[],
+    update: ConversationOrganization & {
+      addTags?: string[];
+      removeTags?: string[];
+    }
+  ) => {
+    if (ids.length === 0) return;
+    try {
+      const res = await fetch("/api/conversations/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, ...update }),
+      });
+      if (!res.ok) {
+        console.error("Failed to update conversations");
+        return;
+      }
+      const data = (await res.json()) as {
+        conversations: BulkConversationUpdate[];
+      };
+      const updates = new Map(data.conversations.map((u) => [u.id, u]));
+      for (const u of data.conversations) {
+        conversationVersionsRef.current.set(u.id, u.version);
+      }
+      const apply = <T extends ConversationSummary | Conversation>(c: T): T => {
+        const u = updates.get(c.id);
+        return u ? { ...c, ...u } : c;
+      };
+      setConversations((prev) => prev.map(apply));
+      // Archived conversations leave the list, and so on.
+      setConversationSummaries((prev) =>
+        prev
+          .map(apply)
+          .filter(
+            (c) =>
+              !updates.has(c.id) ||
+              matchesConversationFilter(c, conversationFilter)
+          )
+      );
+      void loadConversationLabels();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleSaveOrganization = async (id: string) => {
+    await organizeConversations([id], {
+      folder: folderDraft.trim() || null,
+      tags: tagsDraft
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean),
+    });
+    setOrganizingConversationId(null);
+  };
+
+  const handleBulkOrganize = async (
+    update: ConversationOrganization & {
+      addTags?: string[];
+      removeTags?: string[];
+    }
+  ) => {
+    if (!selectedConversationIds) return;
+    await organizeConversations(selectedConversationIds, update);
+    setSelectedConversationIds([]);
+  };
+
+  // Copy the branch up to `messageId` into a new conversation.
+  const handleForkConversation = async (messageId: string) => {
+    if (!activeConversation) return;
+    try {
+      const res = await fetch(
+        `/api/conversations/${encodeURIComponent(activeConversation.id)}/fork`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ messageId }),
+        }
+      );
+      if (!res.ok) {
+        console.error("Failed to fork conversation");
+        return;
+      }
+      const conv = (await res.json()) as Conversation;
+      setConversations((prev) => [conv, ...prev]);
+      setConversationSummaries((prev) => [
+        toConversationSummary(conv),
+        ...prev,
+      ]);
+      setActiveId(conv.id);
+      setInput("");
+      setUploadedFiles([]);
+      setLogs([]);
+      setSelectedLogId(null);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Open the conversation of a search hit on the branch containing the
+  // matched message, loading that branch if needed.
+  const handleOpenSearchHit = async (hit: SearchHit) => {
+    const messageId = hit.messageId;
+    if (messageId) {
+      try {
+        const res = await fetch(
+          `/api/conversations/${encodeURIComponent(
+            hit.conversationId
+          )}?messageId=${encodeURIComponent(messageId)}`
+        );
+        if (!res.ok) {
+          console.error("Failed to load conversation");
+          return;
+        }
+        const conv = (await res.json()) as Conversation;
+        setConversations((prev) => {
+          const existing = prev.find((c) => c.id === conv.id);
+          const messages = existing
+            ? mergeLoadedMessages(existing.messages, conv.messages)
+            : conv.messages;
+          const merged: Conversation = {
+            ...(existing ?? conv),
+            messages,
+            // Shown locally only; the stored branch changes once the user
+            // continues from here.
+            activeLeafId: messages.some((m) => m.id === messageId)
+              ? findLatestLeaf(messages, messageId)
+              : (existing ?? conv).activeLeafId,
+          };
+          return existing
+            ? prev.map((c) => (c.id === conv.id ? merged : c))
+            : [...prev, merged];
+        });
+        setConversationSummaries((prev) =>
+          prev.some((c) => c.id === conv.id)
+            ? prev
+            : [...prev, toConversationSummary(conv)]
+        );
+      } catch (err) {
+        console.error(err);
+        return;
+      }
+    }
+    setActiveId(hit.conversationId);
+    setHighlightedMessageId(messageId);
+    setLogs([]);
+    setSelectedLogId(null);
+  };
+
+  // Moves the conversation to the trash, or deletes it for good when
+  // `permanent` is set.
+  const handleDeleteConversation = async (id: string, permanent = false) => {
     setConversations((prev) => prev.filter((c) => c.id !== id));
+    setConversationSummaries((prev) => prev.filter((c) => c.id !== id));
     if (activeId === id) {
-      const remaining = conversations.filter((c) => c.id !== id);
+      const remaining = conversationSummaries.filter((c) => c.id !== id);
       setActiveId(remaining[0]?.id ?? null);
       setLogs([]);
       setSelectedLogId(null);
     }
     try {
-      await fetch(`/api/conversations/${id}`, {
+      await fetch(
+        `/api/conversations/${id}${permanent ? "?permanent=true" : ""}`,
+        {
+          method: "DELETE",
+        }
+      );
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleRestoreConversation = async (id: string) => {
+    try {
+      const res = await fetch(
+        `/api/conversations/${encodeURIComponent(id)}/restore`,
+        { method: "POST" }
+      );
+      if (!res.ok) {
+        console.error("Failed to restore conversation");
+        return;
+      }
+      // Dropped so it is loaded again with its new version when opened.
+      setConversations((prev) => prev.filter((c) => c.id !== id));
+      setConversationSummaries((prev) =>
+        conversationFilter.trash ? prev.filter((c) => c.id !== id) : prev
+      );
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    try {
+      const res = await fetch("/api/conversations/trash", {
         method: "DELETE",
       });
+      if (!res.ok) {
+        console.error("Failed to empty trash");
+        return;
+      }
+      const purged = new Set(
+        conversationSummaries.filter((c) => c.deletedAt).map((c) => c.id)
+      );
+      setConversations((prev) => prev.filter((c) => !purged.has(c.id)));
+      setConversationSummaries((prev) => prev.filter((c) => !purged.has(c.id)));
+      setConversationsCursor(null);
+      if (activeId && purged.has(activeId)) {
+        setActiveId(null);
+      }
+      void loadConversationLabels();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const setContextSummary = (
+    conversationId: string,
+    contextSummary: ContextSummary | null
+  ) => {
+    setConversations((prev) =>
+      prev.map((c) => (c.id === conversationId ? { ...c, contextSummary } : c))
+    );
+  };
+
+  const handleSaveContextSummary = async (conversationId: string) => {
+    try {
+      const res = await fetch(
+        `/api/conversations/${encodeURIComponent(
+          conversationId
+        )}/context-summary`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ content: contextSummaryDraft }),
+        }
+      );
+      if (!res.ok) {
+        console.error("Failed to save summary");
+        return;
+      }
+      setContextSummary(conversationId, (await res.json()) as ContextSummary);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleClearContextSummary = async (conversationId: string) => {
+    try {
+      const res = await fetch(
+        `/api/conversations/${encodeURIComponent(
+          conversationId
+        )}/context-summary`,
+        { method: "DELETE" }
+      );
+      if (!res.ok) {
+        console.error("Failed to clear summary");
+        return;
+      }
+      setContextSummary(conversationId, null);
+      setContextSummaryDraft("");
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const loadShareLinks = async (conversationId: string) => {
+    setShareLinks([]);
+    try {
+      const res = await fetch(
+        `/api/conversations/${encodeURIComponent(conversationId)}/shares`
+      );
+      if (!res.ok) return;
+      const data = (await res.json()) as { shares: ConversationShare[] };
+      setShareLinks(data.shares);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const copyShareLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/share/${token}`
+      );
+      setCopiedShareToken(token);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleCreateShareLink = async (conversationId: string) => {
+    try {
+      const res = await fetch(
+        `/api/conversations/${encodeURIComponent(conversationId)}/shares`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(shareDraft),
+        }
+      );
+      if (!res.ok) {
+        console.error("Failed to create share link");
+        return;
+      }
+      const share = (await res.json()) as ConversationShare;
+      setShareLinks((prev) => [share, ...prev]);
+      void copyShareLink(share.token);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleRevokeShareLink = async (share: ConversationShare) => {
+    try {
+      const res = await fetch(
+        `/api/conversations/${encodeURIComponent(
+          share.conversationId
+        )}/shares/${encodeURIComponent(share.token)}`,
+        { method: "DELETE" }
+      );
+      if (!res.ok && res.status !== 404) {
+        console.error("Failed to revoke share link");
+        return;
+      }
+      setShareLinks((prev) => prev.filter((s) => s.token !== share.token));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleImportFile = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setImportStatus(`${file.name} is not a JSON file`);
+      return;
+    }
+
+    setImporting(true);
+    setImportStatus(null);
+    try {
+      const res = await fetch("/api/conversations/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          data,
+          branches: importKeepBranches ? "preserve" : "flatten",
+        }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setImportStatus(body?.error ?? "Import failed");
+        return;
+      }
+      const result = body as ImportResponse;
+      const firstError = result.results.find((r) => !r.ok);
+      setImportStatus(
+        `Imported ${result.imported} conversation${
+          result.imported === 1 ? "" : "s"
+        }` +
+          (result.failed > 0
+            ? `, ${result.failed} failed` +
+              (firstError && !firstError.ok ? ` (${firstError.error})` : "")
+            : "")
+      );
+      if (result.imported > 0) {
+        setConversationsCursor(null);
+        setConversationListVersion((v) => v + 1);
+      }
     } catch (err) {
       console.error(err);
+      setImportStatus("Import failed");
+    } finally {
+      setImporting(false);
     }
   };
 
@@ -911,13 +2160,28 @@ export default function HomePage() {
       const idx = prev.findIndex((c) => c.id === activeId);
       if (idx === -1) return prev;
       const updated = updater(prev[idx]);
-      void persistConversation(updated);
+      void persistConversation(updated, updater);
       const copy = [...prev];
       copy[idx] = updated;
       return copy;
     });
   };
 
+  // enabledTools stays unset (every tool offered) until the first toggle.
+  const handleToggleConversationTool = (toolName: string, enabled: boolean) => {
+    updateActiveConversation((conv) => {
+      const current =
+        conv.settings.enabledTools ?? availableTools.map((tool) => tool.name);
+      const next = enabled
+        ? Array.from(new Set([...current, toolName]))
+        : current.filter((name) => name !== toolName);
+      return {
+        ...conv,
+        settings: { ...conv.settings, enabledTools: next },
+      };
+    });
+  };
+
   const handleFileChange = async (
     e: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -951,6 +2215,104 @@ export default function HomePage() {
     e.target.value = "";
   };
 
+  const loadMcpPickerItems = async () => {
+    setMcpPickerLoading(true);
+    setMcpPickerError(null);
+    try {
+      const [resourcesRes, promptsRes] = await Promise.all([
+        fetch("/api/mcp/resources"),
+        fetch("/api/mcp/prompts"),
+      ]);
+      if (!resourcesRes.ok || !promptsRes.ok) {
+        throw new Error("Failed to load MCP resources and prompts");
+      }
+      const resourcesData = (await resourcesRes.json()) as {
+        resources: McpResourceSummary[];
+      };
+      const promptsData = (await promptsRes.json()) as {
+        prompts: McpPromptSummary[];
+      };
+      setMcpResources(resourcesData.resources ?? []);
+      setMcpPrompts(promptsData.prompts ?? []);
+    } catch {
+      setMcpPickerError("Failed to load MCP resources and prompts.");
+    } finally {
+      setMcpPickerLoading(false);
+    }
+  };
+
+  const handleToggleMcpPicker = () => {
+    const next = !showMcpPicker;
+    setShowMcpPicker(next);
+    if (next) {
+      void loadMcpPickerItems();
+    }
+  };
+
+  // Attach an MCP resource like an uploaded file.
+  const handleAttachMcpResource = async (resource: McpResourceSummary) => {
+    setMcpPickerError(null);
+    try {
+      const res = await fetch("/api/mcp/resources", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ serverId: resource.serverId, uri: resource.uri }),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to read resource: ${res.status}`);
+      }
+      const data = (await res.json()) as { contents: McpResourceContent[] };
+      const text = (data.contents ?? [])
+        .map((c) => c.text)
+        .filter((t): t is string => typeof t === "string")
+        .join("\n\n");
+      const blobSize = (data.contents ?? []).reduce(
+        (sum, c) => sum + (c.blob ? Math.floor((c.blob.length * 3) / 4) : 0),
+        0
+      );
+
+      setUploadedFiles((prev) => [
+        ...prev,
+        {
+          id: uuid(),
+          name: `${resource.name} (${resource.serverId})`,
+          type: resource.mimeType || data.contents?.[0]?.mimeType || "",
+          size: text.length + blobSize,
+          textPreview: text ? text.slice(0, 20_000) : undefined,
+        },
+      ]);
+      setShowMcpPicker(false);
+    } catch {
+      setMcpPickerError(`Failed to read ${resource.name}.`);
+    }
+  };
+
+  // Expand an MCP prompt template into the composer.
+  const handleInsertMcpPrompt = async (prompt: McpPromptSummary) => {
+    setMcpPickerError(null);
+    const key = `${prompt.serverId}/${prompt.name}`;
+    try {
+      const res = await fetch("/api/mcp/prompts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          serverId: prompt.serverId,
+          name: prompt.name,
+          arguments: mcpPromptArgs[key] ?? {},
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to get prompt: ${res.status}`);
+      }
+      const data = (await res.json()) as { messages: McpPromptMessage[] };
+      const text = (data.messages ?? []).map((m) => m.text).join("\n\n");
+      setInput((prev) => (prev.trim() ? `${prev}\n\n${text}` : text));
+      setShowMcpPicker(false);
+    } catch {
+      setMcpPickerError(`Failed to expand prompt ${prompt.name}.`);
+    }
+  };
+
   const loadLogsForConversation = useCallback(
     async (conversationId: string) => {
       setLogsLoading(true);
@@ -1009,6 +2371,67 @@ export default function HomePage() {
     void loadScratchpadForConversation(activeConversation.id);
   }, [activeConversation, loadScratchpadForConversation]);
 
+  // The available tools depend on the Web Client and MCP settings.
+  useEffect(() => {
+    if (!userSettings) return;
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch("/api/tools");
+        if (!res.ok) return;
+        const data = (await res.json()) as { tools: AvailableToolInfo[] };
+        if (!cancelled) {
+          setAvailableTools(data.tools ?? []);
+        }
+      } catch {
+        // Without the list the Tools section stays hidden.
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userSettings]);
+
+  // Runs paused for tool approval live server-side, so they are restored
+  // after a reload or when switching back to the conversation.
+  const activeConversationId = activeConversation?.id ?? null;
+  useEffect(() => {
+    setPendingApproval(null);
+    if (!activeConversationId) return;
+
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch(
+          `/api/chat/pending?conversationId=${encodeURIComponent(
+            activeConversationId
+          )}`
+        );
+        if (!res.ok) return;
+        const data = (await res.json()) as {
+          runs: (Omit<ChatApprovalRequiredEvent, "type"> & {
+            createdAt: number;
+          })[];
+        };
+        const latest = data.runs?.[0];
+        if (!cancelled && latest) {
+          setPendingApproval({
+            runId: latest.runId,
+            conversationId: latest.conversationId,
+            calls: latest.calls,
+            content: latest.content,
+            decisions: {},
+          });
+        }
+      } catch {
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeConversationId]);
+
   const updateScrollFlags = useCallback(() => {
     const update = (
       el: HTMLDivElement | null,
@@ -1074,220 +2497,515 @@ export default function HomePage() {
     window.addEventListener("mouseup", onUp);
   };
 
-  const sendMessage = useCallback(async () => {
-    if (!activeConversation || !input.trim() || isSending) return;
-
-    setToolsUsedThisRun([]);
-
-    const userMessage: ChatMessage = {
-      id: uuid(),
-      role: "user",
-      content: input,
-      createdAt: Date.now(),
-    };
+  // POST to /api/chat and stream its NDJSON events into the assistant
+  // message `assistantMessageId`. Used both for new messages and for
+  // resuming a run after tool approval. The server owns the history: the
+  // optimistic user-side messages and the placeholder are swapped for the
+  // persisted ones as their ids arrive.
+  const runChatRequest = useCallback(
+    async (
+      requestBody: Record<string, unknown>,
+      conversationId: string,
+      assistantMessageId: string,
+      initialContent: string,
+      optimisticMessageIds: string[] = []
+    ) => {
+      let accumulated = initialContent;
+      let assistantId = assistantMessageId;
+      let persisted = optimisticMessageIds.length === 0;
 
-    const messages: ChatMessage[] = [...activeConversation.messages];
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
-    let uploadMessage: ChatMessage | null = null;
-    if (uploadedFiles.length > 0) {
-      const summaryLines = uploadedFiles.map((f) => {
-        const base = `File: ${f.name} (${f.type || "unknown"}, ${Math.round(
-          f.size / 1024
-        )} KB)`;
-        if (f.textPreview) {
-          return `${base}\nPreview:\n${f.textPreview}`;
-        }
-        return `${base}\n(Content not extracted in this MVP.)`;
-      });
-      uploadMessage = {
-        id: uuid(),
-        role: "system",
-        content:
-          "The user has uploaded the following files. Use these as context where possible:\n\n" +
-          summaryLines.join("\n\n---\n\n"),
-        createdAt: Date.now(),
+      const setAssistantContent = (content: string) => {
+        setConversations((prev) =>
+          prev.map((c) => {
+            if (c.id !== conversationId) return c;
+            return {
+              ...c,
+              messages: c.messages.map((m) =>
+                m.id === assistantId ? { ...m, content } : m
+              ),
+              updatedAt: Date.now(),
+            };
+          })
+        );
       };
-      messages.push(uploadMessage);
-    }
-
-    messages.push(userMessage);
-
-    const convWithUser: Conversation = {
-      ...activeConversation,
-      messages,
-      updatedAt: Date.now(),
-    };
-
-    setConversations((prev) =>
-      prev.map((c) => (c.id === convWithUser.id ? convWithUser : c))
-    );
-    setInput("");
-    setUploadedFiles([]);
-    setIsSending(true);
 
-    const assistantMessage: ChatMessage = {
-      id: uuid(),
-      role: "assistant",
-      content: "",
-      createdAt: Date.now(),
-    };
+      // Rename local message ids, including references from parentId and
+      // the active leaf.
+      const renameMessageIds = (
+        c: Conversation,
+        renames: Map<string, string>
+      ): Conversation => {
+        const rename = (id: string | null | undefined) =>
+          id ? renames.get(id) ?? id : id;
+        return {
+          ...c,
+          messages: c.messages.map((m) => ({
+            ...m,
+            id: renames.get(m.id) ?? m.id,
+            parentId: rename(m.parentId),
+          })),
+          activeLeafId: rename(c.activeLeafId),
+        };
+      };
 
-    setCurrentAssistantMessageId(assistantMessage.id);
+      const replaceOptimisticMessages = (persisted: ChatMessage[]) => {
+        const renames = new Map(
+          optimisticMessageIds.map((id, i) => [id, persisted[i]?.id ?? id])
+        );
+        setConversations((prev) =>
+          prev.map((c) => {
+            if (c.id !== conversationId) return c;
+            const renamed = renameMessageIds(c, renames);
+            // The server copies replace the optimistic ones (e.g. the
+            // full attachments note).
+            const byId = new Map(persisted.map((m) => [m.id, m]));
+            return {
+              ...renamed,
+              messages: renamed.messages.map((m) => byId.get(m.id) ?? m),
+            };
+          })
+        );
+      };
 
-    const convWithAssistantPlaceholder: Conversation = {
-      ...convWithUser,
-      messages: [...convWithUser.messages, assistantMessage],
-      updatedAt: Date.now(),
-    };
+      const adoptAssistantMessageId = (messageId: string) => {
+        const renames = new Map([[assistantId, messageId]]);
+        assistantId = messageId;
+        setCurrentAssistantMessageId(messageId);
+        setConversations((prev) =>
+          prev.map((c) =>
+            c.id === conversationId ? renameMessageIds(c, renames) : c
+          )
+        );
+      };
 
-    setConversations((prev) =>
-      prev.map((c) =>
-        c.id === convWithAssistantPlaceholder.id ? convWithAssistantPlaceholder : c
-      )
-    );
+      try {
+        const res = await fetch("/api/chat", {
+          method: "POST",
+          body: JSON.stringify(requestBody),
+          signal: controller.signal,
+        });
 
-    let accumulated = "";
+        if (!res.ok) {
+          throw new Error(`Chat request failed: ${res.status}`);
+        }
 
-    const controller = new AbortController();
-    abortControllerRef.current = controller;
+        if (!res.body) {
+          throw new Error("No response body");
+        }
 
-    try {
-      const res = await fetch("/api/chat", {
-        method: "POST",
-        body: JSON.stringify({
-          conversationId: convWithUser.id,
-          messages: convWithUser.messages,
-          modelId: convWithUser.settings.modelId,
-          systemPrompt: convWithUser.settings.systemPrompt,
-          reflectorPrompt: convWithUser.settings.reflectorPrompt,
-          plannerPrompt: convWithUser.settings.plannerPrompt,
-          contextConfig: convWithUser.settings.context,
-          temperature: convWithUser.settings.temperature,
-        }),
-        signal: controller.signal,
-      });
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffered = "";
+        let streamError: string | null = null;
+        let approval: ChatApprovalRequiredEvent | null = null;
+
+        const handleEvent = (event: ChatStreamEvent) => {
+          switch (event.type) {
+            case "text_delta":
+              accumulated += event.text;
+              setAssistantContent(accumulated);
+              break;
+            case "tool_call_started":
+              setRunTrace((prev) => [
+                ...prev,
+                {
+                  id: event.id,
+                  name: event.name,
+                  args: event.args,
+                  status: "running",
+                },
+              ]);
+              break;
+            case "tool_call_result":
+              setRunTrace((prev) =>
+                prev.map((entry) =>
+                  entry.id === event.id
+                    ? {
+                        ...entry,
+                        status: event.ok ? "ok" : "error",
+                        error: event.error,
+                        durationMs: event.durationMs,
+                      }
+                    : entry
+                )
+              );
+              break;
+            case "scratchpad_updated":
+              setScratchpad(event.content);
+              break;
+            case "context_summary_updated":
+              setConversations((prev) =>
+                prev.map((c) =>
+                  c.id === conversationId
+                    ? { ...c, contextSummary: event.summary }
+                    : c
+                )
+              );
+              break;
+            case "messages_persisted":
+              persisted = true;
+              replaceOptimisticMessages(event.messages);
+              break;
+            case "usage":
+              setRunUsage(event);
+              break;
+            case "approval_required":
+              approval = event;
+              break;
+            case "error":
+              streamError = event.message;
+              break;
+            case "done":
+              if (event.content !== accumulated) {
+                accumulated = event.content;
+                setAssistantContent(accumulated);
+              }
+              adoptAssistantMessageId(event.messageId);
+              break;
+          }
+        };
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffered += decoder.decode(value, { stream: true });
+
+          let newlineIndex = buffered.indexOf("\n");
+          while (newlineIndex !== -1) {
+            const line = buffered.slice(0, newlineIndex).trim();
+            buffered = buffered.slice(newlineIndex + 1);
+            newlineIndex = buffered.indexOf("\n");
+            if (!line) continue;
+            try {
+              handleEvent(JSON.parse(line) as ChatStreamEvent);
+            } catch (parseErr) {
+              console.error("Failed to parse chat stream event", parseErr);
+            }
+          }
+        }
 
-      const toolsHeader =
-        res.headers.get("x-tools-used") || res.headers.get("X-Tools-Used");
-      if (toolsHeader) {
-        const runTools = toolsHeader
-          .split(",")
-          .map((t) => t.trim())
-          .filter(Boolean);
-        setToolsUsedThisRun(runTools);
-      }
+        if (streamError) {
+          throw new Error(streamError);
+        }
 
-      if (!res.body) {
-        throw new Error("No response body");
-      }
+        const pausedFor = approval as ChatApprovalRequiredEvent | null;
+
+        // While a run waits for approval its partial reply is kept with
+        // the pending run, not in the conversation.
+        if (pausedFor) {
+          setConversations((prev) =>
+            prev.map((c) => {
+              if (c.id !== conversationId) return c;
+              const placeholder = c.messages.find((m) => m.id === assistantId);
+              return {
+                ...c,
+                messages: c.messages.filter((m) => m.id !== assistantId),
+                activeLeafId:
+                  c.activeLeafId === assistantId
+                    ? placeholder?.parentId ?? null
+                    : c.activeLeafId,
+              };
+            })
+          );
+          setPendingApproval({ ...pausedFor, decisions: {} });
+        }
 
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
+        if (showLogsPanel) {
+          void loadLogsForConversation(conversationId);
+        }
+        void loadScratchpadForConversation(conversationId);
+      } catch (err) {
+        // The server keeps running an aborted request and stores its reply,
+        // so the local placeholder is swapped for what it kept.
+        if (err instanceof Error && err.name === "AbortError") {
+          const localIds = new Set([
+            assistantId,
+            ...(persisted ? [] : optimisticMessageIds),
+          ]);
+          void reloadConversation(conversationId, localIds);
+          if (showLogsPanel) {
+            void loadLogsForConversation(conversationId);
+          }
+          return;
+        }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        const chunk = decoder.decode(value);
-        accumulated += chunk;
+        console.error(err);
+        setRunError(
+          err instanceof Error && err.message
+            ? err.message
+            : "Error streaming response. Check server logs or API key."
+        );
 
+        // Failed replies are not stored. Their placeholder, and the user
+        // turn when the server never stored it, are dropped so the next
+        // message continues from a stored message.
+        const dropped = new Set([
+          assistantId,
+          ...(persisted ? [] : optimisticMessageIds),
+        ]);
         setConversations((prev) =>
           prev.map((c) => {
-            if (c.id !== convWithAssistantPlaceholder.id) return c;
+            if (c.id !== conversationId) return c;
+            let leaf = c.activeLeafId ?? null;
+            while (leaf && dropped.has(leaf)) {
+              leaf = c.messages.find((m) => m.id === leaf)?.parentId ?? null;
+            }
             return {
               ...c,
-              messages: c.messages.map((m) =>
-                m.id === assistantMessage.id
-                  ? { ...m, content: accumulated }
-                  : m
-              ),
-              updatedAt: Date.now(),
+              messages: c.messages.filter((m) => !dropped.has(m.id)),
+              activeLeafId: leaf,
             };
           })
         );
-      }
-
-      let finalConv: Conversation | null = null;
-
-      setConversations((prev) =>
-        prev.map((c) => {
-          if (c.id !== convWithAssistantPlaceholder.id) return c;
-          finalConv = {
-            ...c,
-            updatedAt: Date.now(),
-          };
-          return finalConv;
-        })
-      );
-
-      if (finalConv) {
-        const convToPersist: Conversation = finalConv;
-        void persistConversation(convToPersist);
-
-        if (showLogsPanel) {
-          void loadLogsForConversation(convToPersist.id);
+        if (!persisted && typeof requestBody.content === "string") {
+          const content = requestBody.content;
+          setInput((current) => current || content);
         }
-        void loadScratchpadForConversation(convToPersist.id);
+      } finally {
+        abortControllerRef.current = null;
+        setIsSending(false);
       }
-    } catch (err) {
-      if (err instanceof Error && err.name === "AbortError") {
-        let abortedConv: Conversation | null = null;
+    },
+    [
+      showLogsPanel,
+      loadLogsForConversation,
+      loadScratchpadForConversation,
+      reloadConversation,
+    ]
+  );
 
-        setConversations((prev) =>
-          prev.map((c) => {
-            if (c.id !== convWithAssistantPlaceholder.id) return c;
-            abortedConv = {
+  // Add optimistic messages (the last one becomes the active leaf) and
+  // reset the per-run panels before a request starts.
+  const beginRun = useCallback(
+    (conv: Conversation, added: ChatMessage[], assistantMessage: ChatMessage) => {
+    setRunTrace([]);
+    setRunUsage(null);
+    setRunError(null);
+    setIsSending(true);
+    setCurrentAssistantMessageId(assistantMessage.id);
+    setConversations((prev) =>
+      prev.map((c) =>
+        c.id === conv.id
+          ? {
               ...c,
+              messages: [...c.messages, ...added, assistantMessage],
+              activeLeafId: assistantMessage.id,
               updatedAt: Date.now(),
-            };
-            return abortedConv;
-          })
-        );
-
-        if (abortedConv) {
-          const convToPersist: Conversation = abortedConv;
-          void persistConversation(convToPersist);
-          if (showLogsPanel) {
-            void loadLogsForConversation(convToPersist.id);
-          }
-        }
+            }
+          : c
+      )
+    );
+    },
+    []
+  );
 
-        return;
+  // Send a user turn after `parentId` (the active leaf for a new message,
+  // the edited message's parent for "edit & resend").
+  const submitUserTurn = useCallback(
+    async (
+      conv: Conversation,
+      content: string,
+      parentId: string | null,
+      attachments: UploadedFile[]
+    ) => {
+      // The server drops runs still waiting for approval when a new
+      // message is sent.
+      setPendingApproval(null);
+
+      const added: ChatMessage[] = [];
+
+      // Optimistic copy of the attachments note; the server stores its own.
+      if (attachments.length > 0) {
+        added.push({
+          id: uuid(),
+          role: "system",
+          content: `Attached: ${attachments.map((f) => f.name).join(", ")}`,
+          createdAt: Date.now(),
+          parentId,
+        });
       }
 
-      console.error(err);
-      const errorText =
-        accumulated ||
-        "Error streaming response. Check server logs or API key.";
-
-      const errorConv: Conversation = {
-        ...convWithUser,
-        messages: [
-          ...convWithUser.messages,
-          { ...assistantMessage, content: errorText },
-        ],
-        updatedAt: Date.now(),
+      const userMessage: ChatMessage = {
+        id: uuid(),
+        role: "user",
+        content,
+        createdAt: Date.now(),
+        parentId: added.length > 0 ? added[added.length - 1].id : parentId,
       };
+      added.push(userMessage);
 
-      setConversations((prev) =>
-        prev.map((c) => (c.id === errorConv.id ? errorConv : c))
+      const assistantMessage: ChatMessage = {
+        id: uuid(),
+        role: "assistant",
+        content: "",
+        createdAt: Date.now(),
+        parentId: userMessage.id,
+      };
+
+      beginRun(conv, added, assistantMessage);
+
+      await runChatRequest(
+        {
+          ...buildChatRequestSettings(conv),
+          content,
+          attachments,
+          parentId,
+        },
+        conv.id,
+        assistantMessage.id,
+        "",
+        added.map((m) => m.id)
       );
+    },
+    [beginRun, runChatRequest]
+  );
 
-      void persistConversation(errorConv);
-    } finally {
-      abortControllerRef.current = null;
-      setIsSending(false);
-    }
+  const sendMessage = useCallback(async () => {
+    if (!activeConversation || !input.trim() || isSending) return;
+
+    const leaf = activeMessages[activeMessages.length - 1];
+    const attachments = uploadedFiles;
+    setInput("");
+    setUploadedFiles([]);
+
+    await submitUserTurn(
+      activeConversation,
+      input,
+      leaf ? leaf.id : null,
+      attachments
+    );
   }, [
     activeConversation,
+    activeMessages,
     input,
     isSending,
     uploadedFiles,
-    persistConversation,
-    showLogsPanel,
-    loadLogsForConversation,
-    loadScratchpadForConversation,
+    submitUserTurn,
+  ]);
+
+  // "Edit & resend": the edited text becomes a sibling of the original
+  // message, which stays reachable with the branch arrows.
+  const handleSubmitEdit = async (message: ChatMessage) => {
+    if (!activeConversation || !editDraft.trim() || isSending) return;
+    const parentId = activeParentMap.get(message.id) ?? null;
+    setEditingMessageId(null);
+    await submitUserTurn(activeConversation, editDraft, parentId, []);
+  };
+
+  // Ask for another reply to the message before `message`; the new reply
+  // becomes a sibling of it.
+  const handleRegenerate = async (message: ChatMessage) => {
+    if (!activeConversation || isSending) return;
+    const parentId = activeParentMap.get(message.id) ?? null;
+    if (!parentId) return;
+
+    setPendingApproval(null);
+    const assistantMessage: ChatMessage = {
+      id: uuid(),
+      role: "assistant",
+      content: "",
+      createdAt: Date.now(),
+      parentId,
+    };
+    beginRun(activeConversation, [], assistantMessage);
+
+    await runChatRequest(
+      {
+        ...buildChatRequestSettings(activeConversation),
+        parentId,
+        regenerate: true,
+      },
+      activeConversation.id,
+      assistantMessage.id,
+      ""
+    );
+  };
+
+  // Show another sibling, continuing down its newest branch.
+  const handleSwitchBranch = (siblingId: string) => {
+    if (isSending) return;
+    updateActiveConversation((conv) => ({
+      ...conv,
+      activeLeafId: findLatestLeaf(conv.messages, siblingId),
+    }));
+  };
+
+  // Send the user's decisions for a paused run and stream the rest of the
+  // reply into a new assistant message.
+  const resumePendingRun = useCallback(async () => {
+    if (!activeConversation || !pendingApproval || isSending) return;
+
+    const leaf = activeMessages[activeMessages.length - 1];
+    const assistantMessage: ChatMessage = {
+      id: uuid(),
+      role: "assistant",
+      content: pendingApproval.content,
+      createdAt: Date.now(),
+      parentId: leaf ? leaf.id : null,
+    };
+
+    setPendingApproval(null);
+    setRunError(null);
+    setIsSending(true);
+    setCurrentAssistantMessageId(assistantMessage.id);
+    setConversations((prev) =>
+      prev.map((c) =>
+        c.id === activeConversation.id
+          ? {
+              ...c,
+              messages: [...c.messages, assistantMessage],
+              activeLeafId: assistantMessage.id,
+              updatedAt: Date.now(),
+            }
+          : c
+      )
+    );
+
+    await runChatRequest(
+      {
+        resumeRunId: pendingApproval.runId,
+        decisions: pendingApproval.decisions,
+        stream: activeConversation.settings.stream,
+      },
+      activeConversation.id,
+      assistantMessage.id,
+      pendingApproval.content
+    );
+  }, [
+    activeConversation,
+    activeMessages,
+    pendingApproval,
+    isSending,
+    runChatRequest,
   ]);
 
+  const handleDecidePendingCall = (
+    callId: string,
+    decision: "approve" | "reject"
+  ) => {
+    setPendingApproval((prev) =>
+      prev
+        ? { ...prev, decisions: { ...prev.decisions, [callId]: decision } }
+        : prev
+    );
+  };
+
+  const handleDecideAllPendingCalls = (decision: "approve" | "reject") => {
+    setPendingApproval((prev) =>
+      prev
+        ? {
+            ...prev,
+            decisions: Object.fromEntries(
+              prev.calls.map((call) => [call.id, decision])
+            ),
+          }
+        : prev
+    );
+  };
+
   const handleCancelRequest = useCallback(() => {
     const controller = abortControllerRef.current;
     if (!controller) return;
@@ -1412,49 +3130,589 @@ export default function HomePage() {
           >
             + New conversation
           </button>
+          <input
+            type="search"
+            className="mt-2 w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs outline-none focus:border-sky-600"
+            placeholder="Search conversations…"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setSearchQuery("");
+            }}
+          />
+          <div className="mt-2 flex items-center gap-1 text-[11px]">
+            <select
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-1 py-1 disabled:opacity-50"
+              value={conversationFilter.tag}
+              disabled={conversationFilter.trash}
+              onChange={(e) => {
+                const tag = e.target.value;
+                setConversationFilter((prev) => ({ ...prev, tag }));
+                setSelectedConversationIds((prev) => (prev ? [] : null));
+              }}
+            >
+              <option value="">All tags</option>
+              {conversationLabels.tags.map((tag) => (
+                <option key={tag} value={tag}>
+                  #{tag}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className={`px-2 py-1 rounded-md border disabled:opacity-50 ${
+                conversationFilter.archived
+                  ? "border-amber-600 text-amber-300"
+                  : "border-slate-700 text-slate-400 hover:text-slate-200"
+              }`}
+              title="Show archived conversations"
+              disabled={conversationFilter.trash}
+              onClick={() => {
+                setConversationFilter((prev) => ({
+                  ...prev,
+                  archived: !prev.archived,
+                }));
+                setSelectedConversationIds((prev) => (prev ? [] : null));
+              }}
+            >
+              Archived
+            </button>
+            <button
+              type="button"
+              className={`px-2 py-1 rounded-md border ${
+                conversationFilter.trash
+                  ? "border-red-700 text-red-300"
+                  : "border-slate-700 text-slate-400 hover:text-slate-200"
+              }`}
+              title="Show deleted conversations"
+              onClick={() => {
+                setConversationFilter((prev) => ({
+                  ...prev,
+                  trash: !prev.trash,
+                }));
+                setSelectedConversationIds(null);
+              }}
+            >
+              Trash
+            </button>
+            {conversationFilter.trash ? (
+              <button
+                type="button"
+                className="px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-red-300 disabled:opacity-50"
+                disabled={sidebarConversations.length === 0}
+                onClick={() => void handleEmptyTrash()}
+              >
+                Empty
+              </button>
+            ) : (
+              <button
+                type="button"
+                className={`px-2 py-1 rounded-md border ${
+                  selectedConversationIds
+                    ? "border-sky-600 text-sky-300"
+                    : "border-slate-700 text-slate-400 hover:text-slate-200"
+                }`}
+                onClick={() =>
+                  setSelectedConversationIds((prev) => (prev ? null : []))
+                }
+              >
+                Select
+              </button>
+            )}
+          </div>
+          {selectedConversationIds && (
+            <div className="mt-2 space-y-1 text-[11px]">
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-slate-500 mr-1">
+                  {selectedConversationIds.length} selected
+                </span>
+                <button
+                  type="button"
+                  className="px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800 disabled:opacity-50"
+                  disabled={selectedConversationIds.length === 0}
+                  onClick={() => void handleBulkOrganize({ pinned: true })}
+                >
+                  Pin
+                </button>
+                <button
+                  type="button"
+                  className="px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800 disabled:opacity-50"
+                  disabled={selectedConversationIds.length === 0}
+                  onClick={() => void handleBulkOrganize({ pinned: false })}
+                >
+                  Unpin
+                </button>
+                <button
+                  type="button"
+                  className="px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800 disabled:opacity-50"
+                  disabled={selectedConversationIds.length === 0}
+                  onClick={() =>
+                    void handleBulkOrganize({
+                      archived: !conversationFilter.archived,
+                    })
+                  }
+                >
+                  {conversationFilter.archived ? "Unarchive" : "Archive"}
+                </button>
+              </div>
+              <div className="flex items-center gap-1">
+                <input
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-2 py-0.5 outline-none"
+                  placeholder="Folder or tag"
+                  list="conversation-folders"
+                  value={bulkLabelDraft}
+                  onChange={(e) => setBulkLabelDraft(e.target.value)}
+                />
+                <button
+                  type="button"
+                  className="px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800 disabled:opacity-50"
+                  title="Move to this folder (empty removes the folder)"
+                  disabled={selectedConversationIds.length === 0}
+                  onClick={() =>
+                    void handleBulkOrganize({
+                      folder: bulkLabelDraft.trim() || null,
+                    })
+                  }
+                >
+                  Move
+                </button>
+                <button
+                  type="button"
+                  className="px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800 disabled:opacity-50"
+                  disabled={
+                    selectedConversationIds.length === 0 ||
+                    !bulkLabelDraft.trim()
+                  }
+                  onClick={() =>
+                    void handleBulkOrganize({
+                      addTags: [bulkLabelDraft.trim()],
+                    })
+                  }
+                >
+                  Tag
+                </button>
+              </div>
+            </div>
+          )}
+          <datalist id="conversation-folders">
+            {conversationLabels.folders.map((folder) => (
+              <option key={folder} value={folder} />
+            ))}
+          </datalist>
         </div>
 
-        <div className="flex-1 overflow-y-auto text-xs">
-          {conversations.map((c) => (
-            <div
-              key={c.id}
-              className={`flex items-center justify-between px-3 py-2 border-b border-slate-900 cursor-pointer ${
-                c.id === activeId ? "bg-slate-900" : "hover:bg-slate-900/60"
-              }`}
-              onClick={() => setActiveId(c.id)}
-            >
-              <input
-                className="bg-transparent text-xs flex-1 mr-2 outline-none"
-                ref={(el) => {
-                  titleInputRefs.current[c.id] = el;
-                }}
-                value={c.title}
-                onChange={(e) => {
-                  const title = e.target.value || "Untitled conversation";
-                  setConversations((prev) =>
-                    prev.map((conv) =>
-                      conv.id === c.id ? { ...conv, title } : conv
-                    )
-                  );
-                }}
-                onBlur={() => {
-                  const conv = conversations.find((conv) => conv.id === c.id);
-                  if (conv) {
-                    void persistConversation(conv);
-                  }
-                }}
-              />
+        {searchResults !== null && (
+          <div className="flex-1 overflow-y-auto text-xs">
+            {searchResults.length === 0 && (
+              <div className="px-3 py-2 text-slate-500">
+                {searching ? "Searching…" : "No matches"}
+              </div>
+            )}
+            {searchResults.map((hit) => (
               <button
-                className="text-slate-500 hover:text-red-400 ml-1"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  void handleDeleteConversation(c.id);
-                }}
+                key={`${hit.conversationId}:${hit.messageId ?? "title"}`}
+                type="button"
+                className={`block w-full text-left px-3 py-2 border-b border-slate-900 ${
+                  hit.conversationId === activeId
+                    ? "bg-slate-900"
+                    : "hover:bg-slate-900/60"
+                }`}
+                onClick={() => void handleOpenSearchHit(hit)}
               >
-                ✕
+                <div className="truncate text-slate-200">
+                  {hit.messageId
+                    ? hit.conversationTitle
+                    : renderHighlightedSnippet(hit.snippet, hit.highlights)}
+                </div>
+                {hit.messageId && (
+                  <div className="mt-0.5 text-[11px] text-slate-400 line-clamp-3">
+                    {hit.role && (
+                      <span className="mr-1 text-[10px] uppercase text-slate-500">
+                        {hit.role}
+                      </span>
+                    )}
+                    {renderHighlightedSnippet(hit.snippet, hit.highlights)}
+                  </div>
+                )}
               </button>
+            ))}
+          </div>
+        )}
+
+        <div
+          className={`flex-1 overflow-y-auto text-xs ${
+            searchResults !== null ? "hidden" : ""
+          }`}
+          onScroll={(e) => {
+            const el = e.currentTarget;
+            if (el.scrollHeight - el.scrollTop - el.clientHeight < 80) {
+              void loadMoreConversations();
+            }
+          }}
+        >
+          {sidebarGroups.map((group) => (
+            <div key={group.key}>
+              {group.label && (
+                <div className="px-3 pt-2 pb-1 text-[10px] uppercase tracking-wide text-slate-500">
+                  {group.label}
+                </div>
+              )}
+              {group.conversations.map((c) => (
+                <React.Fragment key={c.id}>
+                  <div
+                    className={`flex items-center justify-between px-3 py-2 border-b border-slate-900 cursor-pointer ${
+                      c.id === activeId
+                        ? "bg-slate-900"
+                        : "hover:bg-slate-900/60"
+                    }`}
+                    title={`${c.messageCount} messages · ${c.modelId}`}
+                    onClick={() => setActiveId(c.id)}
+                  >
+                    {selectedConversationIds && (
+                      <input
+                        type="checkbox"
+                        className="mr-2"
+                        checked={selectedConversationIds.includes(c.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => {
+                          const checked = e.target.checked;
+                          setSelectedConversationIds((prev) =>
+                            checked
+                              ? [...(prev ?? []), c.id]
+                              : (prev ?? []).filter((id) => id !== c.id)
+                          );
+                        }}
+                      />
+                    )}
+                    <div className="flex-1 min-w-0 mr-2">
+                      <input
+                        className="w-full bg-transparent text-xs outline-none"
+                        ref={(el) => {
+                          titleInputRefs.current[c.id] = el;
+                        }}
+                        value={c.title}
+                        onChange={(e) => {
+                          const title =
+                            e.target.value || "Untitled conversation";
+                          setConversationSummaries((prev) =>
+                            prev.map((summary) =>
+                              summary.id === c.id
+                                ? { ...summary, title }
+                                : summary
+                            )
+                          );
+                          setConversations((prev) =>
+                            prev.map((conv) =>
+                              conv.id === c.id ? { ...conv, title } : conv
+                            )
+                          );
+                        }}
+                        onBlur={() => {
+                          const conv = conversations.find(
+                            (conv) => conv.id === c.id
+                          );
+                          if (conv) {
+                            void persistConversation(conv, (server) => ({
+                              ...server,
+                              title: conv.title,
+                            }));
+                          }
+                        }}
+                      />
+                      {c.forkedFrom && (
+                        <button
+                          type="button"
+                          className="block max-w-full truncate text-[10px] text-slate-500 hover:text-slate-300"
+                          title="Open the source conversation"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            const sourceId = c.forkedFrom?.conversationId;
+                            if (sourceId) {
+                              setActiveId(sourceId);
+                            }
+                          }}
+                        >
+                          ↳ forked from {c.forkedFrom.title}
+                        </button>
+                      )}
+                      {c.tags && c.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-0.5">
+                          {c.tags.map((tag) => (
+                            <button
+                              key={tag}
+                              type="button"
+                              className="px-1 rounded bg-slate-800 text-[10px] text-slate-400 hover:text-slate-200"
+                              title="Show conversations with this tag"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setConversationFilter((prev) => ({
+                                  ...prev,
+                                  tag,
+                                }));
+                              }}
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    {c.deletedAt ? (
+                      <button
+                        className="text-slate-500 hover:text-slate-300 ml-1"
+                        title="Restore from the trash"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          void handleRestoreConversation(c.id);
+                        }}
+                      >
+                        ↺
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          className={`ml-1 ${
+                            c.pinned
+                              ? "text-amber-400"
+                              : "text-slate-600 hover:text-slate-300"
+                          }`}
+                          title={c.pinned ? "Unpin" : "Pin to the top"}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            void organizeConversations([c.id], {
+                              pinned: !c.pinned,
+                            });
+                          }}
+                        >
+                          {c.pinned ? "★" : "☆"}
+                        </button>
+                        <button
+                          className="text-slate-500 hover:text-slate-300 ml-1"
+                          title="Folder, tags, archive, export and share"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (organizingConversationId === c.id) {
+                              setOrganizingConversationId(null);
+                              return;
+                            }
+                            setOrganizingConversationId(c.id);
+                            setFolderDraft(c.folder ?? "");
+                            setTagsDraft((c.tags ?? []).join(", "));
+                            setCopiedShareToken(null);
+                            void loadShareLinks(c.id);
+                          }}
+                        >
+                          ⋯
+                        </button>
+                      </>
+                    )}
+                    <button
+                      className="text-slate-500 hover:text-red-400 ml-1"
+                      title={c.deletedAt ? "Delete forever" : "Move to trash"}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void handleDeleteConversation(
+                          c.id,
+                          Boolean(c.deletedAt)
+                        );
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {organizingConversationId === c.id && (
+                    <div className="px-3 py-2 border-b border-slate-900 bg-slate-900/60 space-y-1">
+                      <input
+                        className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] outline-none"
+                        placeholder="Folder"
+                        list="conversation-folders"
+                        value={folderDraft}
+                        onChange={(e) => setFolderDraft(e.target.value)}
+                      />
+                      <input
+                        className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] outline-none"
+                        placeholder="Tags, comma separated"
+                        value={tagsDraft}
+                        onChange={(e) => setTagsDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            void handleSaveOrganization(c.id);
+                          }
+                        }}
+                      />
+                      <div className="flex items-center gap-1 text-[11px] text-slate-400">
+                        <span>Export:</span>
+                        {(["md", "json", "html"] as const).map((format) => (
+                          <a
+                            key={format}
+                            href={`/api/conversations/${encodeURIComponent(
+                              c.id
+                            )}/export?format=${format}${
+                              exportIncludeExtras
+                                ? "&scratchpad=true&toolTrace=true"
+                                : ""
+                            }`}
+                            download
+                            className="px-1 rounded hover:bg-slate-800 hover:text-slate-200"
+                          >
+                            {format.toUpperCase()}
+                          </a>
+                        ))}
+                        <label
+                          className="ml-auto flex items-center gap-1"
+                          title="Include the scratchpad and tool calls"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={exportIncludeExtras}
+                            onChange={(e) =>
+                              setExportIncludeExtras(e.target.checked)
+                            }
+                          />
+                          extras
+                        </label>
+                      </div>
+                      {!c.deletedAt && (
+                        <div className="space-y-1 text-[11px] text-slate-400">
+                          <div className="flex items-center gap-1">
+                            <span>Share:</span>
+                            <select
+                              className="bg-slate-900 border border-slate-700 rounded-md px-1 py-0.5 outline-none"
+                              value={shareDraft.expiresInDays ?? ""}
+                              onChange={(e) =>
+                                setShareDraft((prev) => ({
+                                  ...prev,
+                                  expiresInDays: e.target.value
+                                    ? Number(e.target.value)
+                                    : null,
+                                }))
+                              }
+                            >
+                              <option value="1">1 day</option>
+                              <option value="7">7 days</option>
+                              <option value="30">30 days</option>
+                              <option value="">No expiry</option>
+                            </select>
+                            <button
+                              type="button"
+                              className="ml-auto px-1 rounded hover:bg-slate-800 hover:text-slate-200"
+                              onClick={() => void handleCreateShareLink(c.id)}
+                            >
+                              Create link
+                            </button>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <label
+                              className="flex items-center gap-1"
+                              title="Include system messages other than attached file names"
+                            >
+                              <input
+                                type="checkbox"
+                                checked={!!shareDraft.includeSystemMessages}
+                                onChange={(e) =>
+                                  setShareDraft((prev) => ({
+                                    ...prev,
+                                    includeSystemMessages: e.target.checked,
+                                  }))
+                                }
+                              />
+                              system messages
+                            </label>
+                            <label
+                              className="flex items-center gap-1"
+                              title="Include the text extracted from attached files"
+                            >
+                              <input
+                                type="checkbox"
+                                checked={!!shareDraft.includeFilePreviews}
+                                onChange={(e) =>
+                                  setShareDraft((prev) => ({
+                                    ...prev,
+                                    includeFilePreviews: e.target.checked,
+                                  }))
+                                }
+                              />
+                              file previews
+                            </label>
+                          </div>
+                          {shareLinks
+                            .filter((share) => share.conversationId === c.id)
+                            .map((share) => (
+                              <div
+                                key={share.token}
+                                className="flex items-center gap-1"
+                              >
+                                <button
+                                  type="button"
+                                  className="truncate font-mono text-left hover:text-slate-200"
+                                  title="Copy link"
+                                  onClick={() => void copyShareLink(share.token)}
+                                >
+                                  {copiedShareToken === share.token
+                                    ? "Copied"
+                                    : `/share/${share.token.slice(0, 8)}…`}
+                                </button>
+                                <span className="ml-auto shrink-0 text-slate-500">
+                                  {share.expiresAt
+                                    ? `until ${new Date(
+                                        share.expiresAt
+                                      ).toLocaleDateString()}`
+                                    : "no expiry"}
+                                </span>
+                                <button
+                                  type="button"
+                                  className="text-slate-500 hover:text-red-400"
+                                  title="Revoke link"
+                                  onClick={() =>
+                                    void handleRevokeShareLink(share)
+                                  }
+                                >
+                                  ✕
+                                </button>
+                              </div>
+                            ))}
+                        </div>
+                      )}
+                      <div className="flex items-center justify-between">
+                        <button
+                          type="button"
+                          className="text-[11px] text-slate-400 hover:text-slate-200"
+                          onClick={() => {
+                            setOrganizingConversationId(null);
+                            void organizeConversations([c.id], {
+                              archived: !c.archived,
+                            });
+                          }}
+                        >
+                          {c.archived ? "Unarchive" : "Archive"}
+                        </button>
+                        <button
+                          type="button"
+                          className="text-[11px] px-2 py-0.5 rounded-md bg-sky-600 hover:bg-sky-500"
+                          onClick={() => void handleSaveOrganization(c.id)}
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </React.Fragment>
+              ))}
             </div>
           ))}
+          {sidebarConversations.length === 0 && !loadingConversations && (
+            <div className="px-3 py-2 text-slate-500">No conversations</div>
+          )}
+          {conversationsCursor && (
+            <button
+              type="button"
+              className="w-full px-3 py-2 text-[11px] text-slate-500 hover:text-slate-300 disabled:opacity-60"
+              disabled={loadingMoreConversations}
+              onClick={() => void loadMoreConversations()}
+            >
+              {loadingMoreConversations ? "Loading…" : "Load more"}
+            </button>
+          )}
         </div>
         {activeConversation && (
           <div className="p-3 border-t border-slate-800 text-xs space-y-[10px] min-h-[220px] max-h-[220px]">
@@ -1484,9 +3742,38 @@ export default function HomePage() {
             </div>
 
             <div className="space-y-1">
-              <label className="text-[11px] uppercase tracking-wide text-slate-500">
-                Context strategy
-              </label>
+              <div className="flex items-center justify-between">
+                <label className="text-[11px] uppercase tracking-wide text-slate-500">
+                  Context strategy
+                </label>
+                <label
+                  className="flex items-center gap-1 text-[11px] text-slate-400"
+                  title={`Fit the history into the model's context window (${resolveContextWindow(
+                    activeConversation.settings.modelId,
+                    userSettings?.customModels
+                  ).toLocaleString()} tokens) after the system prompt, tools and reply`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={
+                      activeConversation.settings.context.budgetMode === "auto"
+                    }
+                    onChange={(e) =>
+                      updateActiveConversation((conv) => ({
+                        ...conv,
+                        settings: {
+                          ...conv.settings,
+                          context: {
+                            ...conv.settings.context,
+                            budgetMode: e.target.checked ? "auto" : "manual",
+                          },
+                        },
+                      }))
+                    }
+                  />
+                  Auto budget
+                </label>
+              </div>
               <select
                 className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1"
                 value={activeConversation.settings.context.strategy}
@@ -1506,6 +3793,7 @@ export default function HomePage() {
                 <option value="full">Full conversation</option>
                 <option value="lastN">Last N messages</option>
                 <option value="approxTokens">Approx token limit</option>
+                <option value="summarize">Summarize older messages</option>
               </select>
             </div>
 
@@ -1532,12 +3820,69 @@ export default function HomePage() {
               </div>
             )}
 
-            {activeConversation.settings.context.strategy ===
-              "approxTokens" && (
-              <div className="flex items-center justify-between">
+            {activeConversation.settings.context.budgetMode === "auto" ? (
+              <div className="flex items-center justify-between gap-2">
+                <span
+                  className="text-[11px] text-slate-400"
+                  title="Tokens kept free for the reply, also its maximum length"
+                >
+                  Reply reserve
+                </span>
+                {activeConversation.settings.context.strategy ===
+                  "summarize" && (
+                  <button
+                    type="button"
+                    className="ml-auto text-[11px] text-slate-400 hover:text-slate-200"
+                    title="View or edit the summary of older messages"
+                    onClick={() => setContextSummaryVisible((prev) => !prev)}
+                  >
+                    Summary
+                  </button>
+                )}
+                <input
+                  type="number"
+                  min={1}
+                  className="w-20 bg-slate-900 border border-slate-700 rounded-md px-1 py-0.5 text-right"
+                  value={
+                    activeConversation.settings.context.reservedOutputTokens ??
+                    DEFAULT_RESERVED_OUTPUT_TOKENS
+                  }
+                  onChange={(e) =>
+                    updateActiveConversation((conv) => ({
+                      ...conv,
+                      settings: {
+                        ...conv.settings,
+                        context: {
+                          ...conv.settings.context,
+                          reservedOutputTokens: Math.max(
+                            1,
+                            Math.floor(Number(e.target.value)) || 256
+                          ),
+                        },
+                      },
+                    }))
+                  }
+                />
+              </div>
+            ) : (activeConversation.settings.context.strategy ===
+                "approxTokens" ||
+              activeConversation.settings.context.strategy ===
+                "summarize") && (
+              <div className="flex items-center justify-between gap-2">
                 <span className="text-[11px] text-slate-400">
                   Max approx tokens
                 </span>
+                {activeConversation.settings.context.strategy ===
+                  "summarize" && (
+                  <button
+                    type="button"
+                    className="ml-auto text-[11px] text-slate-400 hover:text-slate-200"
+                    title="View or edit the summary of older messages"
+                    onClick={() => setContextSummaryVisible((prev) => !prev)}
+                  >
+                    Summary
+                  </button>
+                )}
                 <input
                   type="number"
                   className="w-20 bg-slate-900 border border-slate-700 rounded-md px-1 py-0.5 text-right"
@@ -1604,6 +3949,127 @@ export default function HomePage() {
                 Stream responses
               </label>
             </div>
+
+            {availableTools.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-[11px] text-slate-400">Tools</div>
+                {Array.from(
+                  new Set(availableTools.map((tool) => tool.group))
+                ).map((group) => (
+                  <div key={group} className="space-y-0.5">
+                    <div className="text-[10px] uppercase tracking-wide text-slate-500">
+                      {group}
+                    </div>
+                    {availableTools
+                      .filter((tool) => tool.group === group)
+                      .map((tool) => {
+                        const enabledTools =
+                          activeConversation.settings.enabledTools;
+                        const checked =
+                          !enabledTools || enabledTools.includes(tool.name);
+                        return (
+                          <label
+                            key={tool.name}
+                            className="flex items-center gap-2 text-[11px] text-slate-300"
+                            title={tool.description}
+                          >
+                            <input
+                              type="checkbox"
+                              className="h-3 w-3"
+                              checked={checked}
+                              onChange={(e) =>
+                                handleToggleConversationTool(
+                                  tool.name,
+                                  e.target.checked
+                                )
+                              }
+                            />
+                            <span className="font-mono truncate">
+                              {tool.name}
+                            </span>
+                          </label>
+                        );
+                      })}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Context summary side panel */}
+        {contextSummaryVisible && activeConversation && (
+          <div
+            className="absolute top-0 right-0 bottom-0 max-w-[40vw] border-l border-slate-800 bg-slate-950/95 backdrop-blur-sm shadow-xl flex flex-col min-h-0 overflow-hidden z-20"
+            style={{ width: logsPanelWidth }}
+          >
+            <div
+              className="absolute inset-y-0 left-0 w-2 cursor-col-resize bg-slate-800/40 hover:bg-slate-700/70 z-10"
+              onMouseDown={handleLogsPanelResizeStart}
+            />
+            <div className="p-3 border-b border-slate-800 flex items-center justify-between">
+              <div>
+                <div className="text-xs font-semibold">Context summary</div>
+                <div className="text-[11px] text-slate-500">
+                  Sent instead of the older messages of{" "}
+                  {activeConversation.title}
+                </div>
+              </div>
+              <button
+                className="text-xs px-2 py-1 rounded-md border border-slate-700 hover:bg-slate-800"
+                onClick={() => setContextSummaryVisible(false)}
+              >
+                Close
+              </button>
+            </div>
+            <div className="flex-1 min-h-0 p-3 text-xs flex flex-col gap-2">
+              {activeConversation.contextSummary ? (
+                <>
+                  <textarea
+                    className="flex-1 min-h-0 w-full bg-slate-900 border border-slate-800 rounded-md px-2 py-1 text-[11px] outline-none resize-none"
+                    value={contextSummaryDraft}
+                    onChange={(e) => setContextSummaryDraft(e.target.value)}
+                  />
+                  <div className="flex items-center gap-2">
+                    <span className="text-[11px] text-slate-500">
+                      Updated{" "}
+                      {new Date(
+                        activeConversation.contextSummary.updatedAt
+                      ).toLocaleString()}
+                    </span>
+                    <button
+                      type="button"
+                      className="ml-auto text-[11px] text-slate-400 hover:text-red-400"
+                      title="Summarize the older messages again on the next turn"
+                      onClick={() =>
+                        void handleClearContextSummary(activeConversation.id)
+                      }
+                    >
+                      Reset
+                    </button>
+                    <button
+                      type="button"
+                      className="text-[11px] px-2 py-0.5 rounded-md bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700"
+                      disabled={
+                        !contextSummaryDraft.trim() ||
+                        contextSummaryDraft ===
+                          activeConversation.contextSummary.content
+                      }
+                      onClick={() =>
+                        void handleSaveContextSummary(activeConversation.id)
+                      }
+                    >
+                      Save
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <div className="text-[11px] text-slate-500">
+                  No summary yet. One is written once the history exceeds
+                  the token budget.
+                </div>
+              )}
+            </div>
           </div>
         )}
 
@@ -1658,24 +4124,67 @@ export default function HomePage() {
         </button>
         {activeConversation ? (
           <>
+            {activeConversation.deletedAt && (
+              <div className="px-4 py-2 border-b border-red-900/60 bg-red-950/40 text-xs text-red-200 flex items-center gap-3">
+                <span>
+                  This conversation is in the trash and cannot be continued.
+                </span>
+                <button
+                  type="button"
+                  className="underline hover:text-red-100"
+                  onClick={() =>
+                    void handleRestoreConversation(activeConversation.id)
+                  }
+                >
+                  Restore
+                </button>
+              </div>
+            )}
             {/* Messages */}
             <div
               ref={messagesContainerRef}
               className="flex-1 overflow-y-auto px-4 py-4 space-y-3 text-sm"
+              onScroll={(e) => {
+                if (e.currentTarget.scrollTop < 40) {
+                  void loadOlderMessages();
+                }
+              }}
             >
-              {activeConversation.messages.map((m) => {
+              {activeConversation.olderMessagesCursor && (
+                <div className="flex justify-center">
+                  <button
+                    type="button"
+                    className="text-[11px] text-slate-500 hover:text-slate-300 disabled:opacity-60"
+                    disabled={loadingOlderMessages}
+                    onClick={() => void loadOlderMessages()}
+                  >
+                    {loadingOlderMessages
+                      ? "Loading…"
+                      : "Load earlier messages"}
+                  </button>
+                </div>
+              )}
+              {activeMessages.map((m) => {
                 const isThinkingBubble =
                   isSending && m.role === "assistant" && !m.content;
+                const siblings = activeSiblingMap.get(m.id) ?? [m];
+                const siblingIndex = siblings.findIndex((s) => s.id === m.id);
+                const isEditing = editingMessageId === m.id;
 
                 return (
                   <div
                     key={m.id}
+                    id={`message-${m.id}`}
                     className={`flex ${
                       m.role === "user" ? "justify-end" : "justify-start"
                     }`}
                   >
                     <div
                       className={`relative max-w-[70%] min-w-[12%] rounded-lg px-3 py-2 whitespace-pre-wrap ${
+                        m.id === highlightedMessageId
+                          ? "ring-2 ring-amber-400"
+                          : ""
+                      } ${
                         m.role === "user"
                           ? "bg-sky-600 text-white"
                           : m.role === "assistant"
@@ -1688,6 +4197,84 @@ export default function HomePage() {
                           {m.role.toUpperCase()}
                         </div>
                         <div className="flex items-center gap-2">
+                          {siblings.length > 1 && (
+                            <span className="flex items-center gap-1 text-[10px] opacity-70">
+                              <button
+                                type="button"
+                                className="hover:opacity-100 disabled:opacity-40"
+                                disabled={isSending || siblingIndex <= 0}
+                                onClick={() =>
+                                  handleSwitchBranch(
+                                    siblings[siblingIndex - 1].id
+                                  )
+                                }
+                                aria-label="Previous version"
+                              >
+                                ‹
+                              </button>
+                              <span>
+                                {siblingIndex + 1}/{siblings.length}
+                              </span>
+                              <button
+                                type="button"
+                                className="hover:opacity-100 disabled:opacity-40"
+                                disabled={
+                                  isSending ||
+                                  siblingIndex >= siblings.length - 1
+                                }
+                                onClick={() =>
+                                  handleSwitchBranch(
+                                    siblings[siblingIndex + 1].id
+                                  )
+                                }
+                                aria-label="Next version"
+                              >
+                                ›
+                              </button>
+                            </span>
+                          )}
+                          {m.role === "user" && !isSending && !isEditing && (
+                            <button
+                              type="button"
+                              className="text-[10px] opacity-70 hover:opacity-100"
+                              onClick={() => {
+                                setEditingMessageId(m.id);
+                                setEditDraft(m.content);
+                              }}
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {m.role === "assistant" && !isSending && (
+                            <button
+                              type="button"
+                              className="text-[10px] text-slate-400 hover:text-slate-100"
+                              onClick={() => void handleRegenerate(m)}
+                            >
+                              Regenerate
+                            </button>
+                          )}
+                          {!isSending && !isEditing && (
+                            <button
+                              type="button"
+                              className="text-[10px] opacity-70 hover:opacity-100"
+                              title="Continue from here in a new conversation"
+                              onClick={() => void handleForkConversation(m.id)}
+                            >
+                              Fork
+                            </button>
+                          )}
+                          {m.role === "assistant" &&
+                            m.id === currentAssistantMessageId &&
+                            runUsage &&
+                            !isSending && (
+                              <span
+                                className="text-[10px] text-slate-500"
+                                title={`Prompt ${runUsage.promptTokens.toLocaleString()} • Completion ${runUsage.completionTokens.toLocaleString()}`}
+                              >
+                                {runUsage.totalTokens.toLocaleString()} tokens
+                              </span>
+                            )}
                           {isThinkingBubble &&
                             m.id === currentAssistantMessageId && (
                               <button
@@ -1756,19 +4343,43 @@ export default function HomePage() {
                       {m.role === "assistant" ? (
                         <>
                           {m.id === currentAssistantMessageId &&
-                            toolsUsedThisRun.length > 0 && (
-                              <div className="absolute align-right top-2 right-10 text-[10px] text-emerald-300 animate-pulse">
-                                {(() => {
-                                  const primary = toolsUsedThisRun[0];
-                                  if (!primary) return null;
-                                  const emoji =
-                                    primary === "scratchpad"
-                                      ? "📝"
-                                      : primary === "get_utc_time"
-                                      ? "🕒"
-                                      : "🛠️";
-                                  return `tool called ${emoji} : ${primary}`;
-                                })()}
+                            runTrace.length > 0 && (
+                              <div className="mb-1 space-y-0.5 text-[10px] border-l border-slate-600 pl-2">
+                                {runTrace.map((entry) => {
+                                  const argsSummary = summarizeToolArgs(
+                                    entry.args
+                                  );
+                                  return (
+                                    <div
+                                      key={entry.id}
+                                      className={`flex items-center gap-1 ${
+                                        entry.status === "running"
+                                          ? "text-emerald-300 animate-pulse"
+                                          : entry.status === "ok"
+                                          ? "text-slate-400"
+                                          : "text-red-300"
+                                      }`}
+                                      title={entry.error ?? undefined}
+                                    >
+                                      <span>{toolTraceEmoji(entry.name)}</span>
+                                      <span className="font-mono">
+                                        {entry.name}
+                                      </span>
+                                      {argsSummary && (
+                                        <span className="truncate max-w-[24rem] opacity-70">
+                                          ({argsSummary})
+                                        </span>
+                                      )}
+                                      <span className="opacity-70">
+                                        {entry.status === "running"
+                                          ? "running…"
+                                          : entry.status === "ok"
+                                          ? `✓ ${entry.durationMs ?? 0} ms`
+                                          : `✕ ${entry.error ?? "failed"}`}
+                                      </span>
+                                    </div>
+                                  );
+                                })}
                               </div>
                             )}
                           {isThinkingBubble ? (
@@ -1797,40 +4408,36 @@ export default function HomePage() {
                             </div>
                           ) : (
                             <div className="whitespace-normal">
-                              <ReactMarkdown
-                                components={{
-                                  p: (props) => (
-                                    <p
-                                      className="mb-0 leading-snug"
-                                      {...props}
-                                    />
-                                  ),
-                                  strong: (props) => (
-                                    <strong
-                                      className="font-semibold"
-                                      {...props}
-                                    />
-                                  ),
-                                  em: (props) => <em className="italic" {...props} />,
-                                  ul: (props) => (
-                                    <ul
-                                      className="list-disc ml-4 mb-1"
-                                      {...props}
-                                    />
-                                  ),
-                                  ol: (props) => (
-                                    <ol
-                                      className="list-decimal ml-4 mb-1"
-                                      {...props}
-                                    />
-                                  ),
-                                }}
-                              >
-                                {m.content}
-                              </ReactMarkdown>
+                              <MessageMarkdown content={m.content} />
                             </div>
                           )}
                         </>
+                      ) : isEditing ? (
+                        <div className="space-y-1">
+                          <textarea
+                            className="w-full min-w-[16rem] rounded-md bg-sky-700/60 px-2 py-1 text-sm text-white outline-none"
+                            rows={3}
+                            value={editDraft}
+                            onChange={(e) => setEditDraft(e.target.value)}
+                          />
+                          <div className="flex justify-end gap-2 text-[11px]">
+                            <button
+                              type="button"
+                              className="px-2 py-0.5 rounded-md border border-sky-300/50 hover:bg-sky-700"
+                              onClick={() => setEditingMessageId(null)}
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="button"
+                              className="px-2 py-0.5 rounded-md bg-white text-sky-700 hover:bg-sky-50 disabled:opacity-50"
+                              disabled={!editDraft.trim() || isSending}
+                              onClick={() => void handleSubmitEdit(m)}
+                            >
+                              Save &amp; send
+                            </button>
+                          </div>
+                        </div>
                       ) : (
                         m.content
                       )}
@@ -1838,10 +4445,132 @@ export default function HomePage() {
                   </div>
                 );
               })}
+
+              {pendingApproval && (
+                <div className="flex justify-start">
+                  <div className="max-w-[70%] min-w-[12%] rounded-lg px-3 py-2 bg-slate-800 text-slate-100 border border-amber-600/50 space-y-2">
+                    <div className="text-[10px] font-medium opacity-70">
+                      ASSISTANT – WAITING FOR APPROVAL
+                    </div>
+                    {pendingApproval.content && (
+                      <div className="whitespace-pre-wrap text-sm">
+                        {pendingApproval.content}
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      {pendingApproval.calls.map((call) => {
+                        const decision = pendingApproval.decisions[call.id];
+                        return (
+                          <div
+                            key={call.id}
+                            className="rounded-md border border-slate-700 bg-slate-900/60 p-2 space-y-1 text-[11px]"
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="flex items-center gap-1">
+                                <span>{toolTraceEmoji(call.name)}</span>
+                                <span className="font-mono">{call.name}</span>
+                              </span>
+                              <span className="flex items-center gap-1">
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    handleDecidePendingCall(call.id, "approve")
+                                  }
+                                  className={`px-2 py-0.5 rounded-md border text-[10px] ${
+                                    decision === "approve"
+                                      ? "border-emerald-500 bg-emerald-900/40 text-emerald-100"
+                                      : "border-slate-700 hover:bg-slate-800"
+                                  }`}
+                                >
+                                  Approve
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    handleDecidePendingCall(call.id, "reject")
+                                  }
+                                  className={`px-2 py-0.5 rounded-md border text-[10px] ${
+                                    decision === "reject"
+                                      ? "border-red-500 bg-red-900/40 text-red-100"
+                                      : "border-slate-700 hover:bg-slate-800"
+                                  }`}
+                                >
+                                  Reject
+                                </button>
+                              </span>
+                            </div>
+                            <div className="text-slate-400">{call.reason}</div>
+                            <pre className="max-h-40 overflow-auto whitespace-pre-wrap bg-slate-950 border border-slate-800 rounded-md p-2 text-[10px] text-slate-300">
+                              {JSON.stringify(call.args, null, 2)}
+                            </pre>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <div className="flex items-center justify-between gap-2 text-[10px]">
+                      <span className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          onClick={() => handleDecideAllPendingCalls("approve")}
+                          className="px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800"
+                        >
+                          Approve all
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDecideAllPendingCalls("reject")}
+                          className="px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800"
+                        >
+                          Reject all
+                        </button>
+                      </span>
+                      <button
+                        type="button"
+                        disabled={
+                          isSending ||
+                          pendingApproval.calls.some(
+                            (call) => !pendingApproval.decisions[call.id]
+                          )
+                        }
+                        onClick={() => void resumePendingRun()}
+                        className="px-2 py-0.5 rounded-md bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700"
+                      >
+                        Continue
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Input bar */}
-            <div className="border-t border-slate-800 bg-slate-950/80 px-4 py-2 min-h-[220px] max-h-[220px]">
+            <div className="relative border-t border-slate-800 bg-slate-950/80 px-4 py-2 min-h-[220px] max-h-[220px]">
+              {contextPreviewVisible && (
+                <div className="absolute bottom-full left-4 right-4 mb-2 max-h-[60vh] overflow-y-auto rounded-md border border-slate-700 bg-slate-950 shadow-xl p-3 space-y-3 text-[11px] z-30">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-slate-300">
+                      Next request
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setContextPreviewVisible(false)}
+                      className="text-slate-400 hover:text-slate-200"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {contextPreviewError && (
+                    <div className="text-red-400">{contextPreviewError}</div>
+                  )}
+                  {!contextPreview ? (
+                    !contextPreviewError && (
+                      <div className="text-slate-500">Loading…</div>
+                    )
+                  ) : (
+                    <ContextPreviewDetails preview={contextPreview} />
+                  )}
+                </div>
+              )}
               <div className="flex items-center justify-between mb-2 text-xs text-slate-500">
                 <div className="flex items-center gap-3">
                   <label className="inline-flex items-center gap-1">
@@ -1859,11 +4588,38 @@ export default function HomePage() {
                       : "Enter to send; Shift+Enter = newline"}
                   </span>
                 </div>
-                <span className="text-[11px]">
-                  Uploads: {uploadedFiles.length}
-                </span>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    className={`text-[11px] hover:text-slate-200 ${
+                      contextPreviewVisible ? "text-sky-400" : ""
+                    }`}
+                    title="Show the prompt the next message sends"
+                    onClick={() => setContextPreviewVisible((v) => !v)}
+                  >
+                    {contextPreview && contextPreviewVisible
+                      ? `Context: ${contextPreview.promptTokens.toLocaleString()} tokens`
+                      : "Context"}
+                  </button>
+                  <span className="text-[11px]">
+                    Uploads: {uploadedFiles.length}
+                  </span>
+                </div>
               </div>
 
+              {runError && (
+                <div className="flex items-center justify-between mb-2 text-[11px] text-red-400">
+                  <span>Reply failed: {runError}</span>
+                  <button
+                    type="button"
+                    className="text-slate-400 hover:text-slate-200"
+                    onClick={() => setRunError(null)}
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+
               {uploadedFiles.length > 0 && (
                 <div className="flex flex-wrap gap-2 mb-2 text-[11px]">
                   {uploadedFiles.map((f) => (
@@ -1895,7 +4651,145 @@ export default function HomePage() {
                   onChange={(e) => setInput(e.target.value)}
                   onKeyDown={handleKeyDown}
                 />
-                <div className="flex flex-col gap-2">
+                <div className="relative flex flex-col gap-2">
+                  {userSettings?.mcpEnabled && (
+                    <button
+                      type="button"
+                      title="MCP resources and prompts"
+                      onClick={handleToggleMcpPicker}
+                      className="inline-flex items-center justify-center rounded-md border border-slate-700 bg-slate-900 hover:bg-slate-800 h-9 w-9"
+                    >
+                      <span className="text-lg">🔌</span>
+                    </button>
+                  )}
+                  {showMcpPicker && (
+                    <div className="absolute bottom-full right-0 mb-2 w-80 max-h-96 overflow-y-auto rounded-md border border-slate-700 bg-slate-950 shadow-xl p-2 space-y-3 text-[11px] z-30">
+                      <div className="flex items-center justify-between">
+                        <span className="font-semibold text-slate-300">
+                          MCP resources &amp; prompts
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setShowMcpPicker(false)}
+                          className="text-slate-400 hover:text-slate-200"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      {mcpPickerLoading && (
+                        <div className="text-slate-500">Loading…</div>
+                      )}
+                      {mcpPickerError && (
+                        <div className="text-red-400">{mcpPickerError}</div>
+                      )}
+                      {!mcpPickerLoading && (
+                        <>
+                          <div className="space-y-1">
+                            <div className="uppercase tracking-wide text-[10px] text-slate-500">
+                              Resources
+                            </div>
+                            {mcpResources.length === 0 ? (
+                              <div className="text-slate-500">
+                                No resources available.
+                              </div>
+                            ) : (
+                              mcpResources.map((resource) => (
+                                <button
+                                  key={`${resource.serverId}:${resource.uri}`}
+                                  type="button"
+                                  onClick={() =>
+                                    void handleAttachMcpResource(resource)
+                                  }
+                                  className="w-full text-left px-2 py-1 rounded-md hover:bg-slate-800"
+                                >
+                                  <span className="text-slate-200">
+                                    {resource.name}
+                                  </span>
+                                  <span className="ml-1 text-slate-500">
+                                    {resource.serverId}
+                                  </span>
+                                  {resource.description && (
+                                    <span className="block text-[10px] text-slate-500">
+                                      {resource.description}
+                                    </span>
+                                  )}
+                                </button>
+                              ))
+                            )}
+                          </div>
+                          <div className="space-y-1">
+                            <div className="uppercase tracking-wide text-[10px] text-slate-500">
+                              Prompts
+                            </div>
+                            {mcpPrompts.length === 0 ? (
+                              <div className="text-slate-500">
+                                No prompts available.
+                              </div>
+                            ) : (
+                              mcpPrompts.map((prompt) => {
+                                const key = `${prompt.serverId}/${prompt.name}`;
+                                return (
+                                  <div
+                                    key={key}
+                                    className="px-2 py-1 rounded-md border border-slate-800 space-y-1"
+                                  >
+                                    <div className="flex items-center justify-between gap-2">
+                                      <span>
+                                        <span className="text-slate-200">
+                                          {prompt.name}
+                                        </span>
+                                        <span className="ml-1 text-slate-500">
+                                          {prompt.serverId}
+                                        </span>
+                                      </span>
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          void handleInsertMcpPrompt(prompt)
+                                        }
+                                        className="text-[10px] px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800"
+                                      >
+                                        Insert
+                                      </button>
+                                    </div>
+                                    {prompt.description && (
+                                      <div className="text-[10px] text-slate-500">
+                                        {prompt.description}
+                                      </div>
+                                    )}
+                                    {prompt.arguments.map((arg) => (
+                                      <input
+                                        key={`${key}-${arg.name}`}
+                                        type="text"
+                                        className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
+                                        placeholder={`${arg.name}${
+                                          arg.required ? " *" : ""
+                                        }${
+                                          arg.description
+                                            ? ` – ${arg.description}`
+                                            : ""
+                                        }`}
+                                        value={mcpPromptArgs[key]?.[arg.name] ?? ""}
+                                        onChange={(e) =>
+                                          setMcpPromptArgs((prev) => ({
+                                            ...prev,
+                                            [key]: {
+                                              ...prev[key],
+                                              [arg.name]: e.target.value,
+                                            },
+                                          }))
+                                        }
+                                      />
+                                    ))}
+                                  </div>
+                                );
+                              })
+                            )}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
                   <label className="inline-flex items-center justify-center rounded-md border border-slate-700 bg-slate-900 hover:bg-slate-800 h-9 w-9 cursor-pointer">
                     <span className="text-lg">📎</span>
                     <input
@@ -2108,8 +5002,10 @@ export default function HomePage() {
                               </span>
                             </div>
                           )}
-                          {selectedLog.request.contextConfig.strategy ===
-                            "approxTokens" && (
+                          {(selectedLog.request.contextConfig.strategy ===
+                            "approxTokens" ||
+                            selectedLog.request.contextConfig.strategy ===
+                              "summarize") && (
                             <div>
                               <span className="text-slate-500">
                                 Max approx tokens: {" "}
@@ -2120,6 +5016,30 @@ export default function HomePage() {
                               </span>
                             </div>
                           )}
+                          {selectedLog.request.tokenBudget && (
+                            <div>
+                              <span className="text-slate-500">
+                                Auto budget:{" "}
+                              </span>
+                              <span>
+                                {(() => {
+                                  const budget =
+                                    selectedLog.request.tokenBudget;
+                                  return `${budget.historyTokens.toLocaleString()} history of ${budget.contextWindow.toLocaleString()} (system ${budget.systemTokens}, tools ${budget.toolTokens}, reply ${budget.reservedOutputTokens})`;
+                                })()}
+                              </span>
+                            </div>
+                          )}
+                          {selectedLog.request.contextSummary && (
+                            <div>
+                              <div className="text-slate-500">
+                                Summary sent:
+                              </div>
+                              <div className="whitespace-pre-wrap">
+                                {selectedLog.request.contextSummary}
+                              </div>
+                            </div>
+                          )}
                         </div>
                       </div>
 
@@ -2186,12 +5106,55 @@ export default function HomePage() {
                 Prompts, models, MCP, and provider settings
               </div>
             </div>
-            <button
-              onClick={() => setShowConfigModal(false)}
-              className="text-xs px-2 py-1 rounded-md border border-slate-700 hover:bg-slate-800"
-            >
-              Close
-            </button>
+            <div className="flex items-center gap-2">
+              <a
+                href="/api/export"
+                download
+                className="text-xs px-2 py-1 rounded-md border border-slate-700 hover:bg-slate-800"
+                title="Download every conversation, scratchpad and setting as a zip"
+              >
+                Export all data
+              </a>
+              {importStatus && (
+                <span className="text-[11px] text-slate-400">
+                  {importStatus}
+                </span>
+              )}
+              <label
+                className="flex items-center gap-1 text-[11px] text-slate-400"
+                title="Keep edited and regenerated branches instead of only the current one"
+              >
+                <input
+                  type="checkbox"
+                  checked={importKeepBranches}
+                  onChange={(e) => setImportKeepBranches(e.target.checked)}
+                />
+                Keep branches
+              </label>
+              <label
+                className={`text-xs px-2 py-1 rounded-md border border-slate-700 ${
+                  importing
+                    ? "opacity-50 cursor-wait"
+                    : "hover:bg-slate-800 cursor-pointer"
+                }`}
+                title="Import a ChatGPT conversations.json, a Claude export or an array of OpenAI-style messages"
+              >
+                {importing ? "Importing…" : "Import"}
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  disabled={importing}
+                  onChange={(e) => void handleImportFile(e)}
+                />
+              </label>
+              <button
+                onClick={() => setShowConfigModal(false)}
+                className="text-xs px-2 py-1 rounded-md border border-slate-700 hover:bg-slate-800"
+              >
+                Close
+              </button>
+            </div>
           </div>
 
           <div className="flex-1 overflow-y-auto px-4 py-4 text-xs">
@@ -2621,112 +5584,375 @@ export default function HomePage() {
                               </div>
                               <div className="flex items-center gap-2 text-[10px] text-slate-500">
                                 <span>Server #{index + 1}</span>
-                                {server.type && <span>Type: {server.type}</span>}
+                                <span>Transport:</span>
+                                <select
+                                  className="bg-slate-900 border border-slate-700 rounded-md px-1 py-0.5 text-[10px] text-slate-200"
+                                  value={server.type}
+                                  onChange={(e) =>
+                                    handleUpdateMcpServer(server.id, (s) => ({
+                                      ...s,
+                                      type: e.target.value as McpTransportType,
+                                    }))
+                                  }
+                                >
+                                  {(
+                                    Object.keys(
+                                      MCP_TRANSPORT_LABELS
+                                    ) as McpTransportType[]
+                                  ).map((type) => (
+                                    <option key={type} value={type}>
+                                      {MCP_TRANSPORT_LABELS[type]}
+                                    </option>
+                                  ))}
+                                </select>
                               </div>
                             </div>
 
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            {server.type !== "stdio" && (
                               <div className="space-y-1">
                                 <div className="text-[10px] text-slate-500">
-                                  Command
+                                  Server URL
                                 </div>
                                 <input
                                   type="text"
                                   className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
-                                  placeholder="e.g. node"
-                                  value={server.command}
+                                  placeholder={
+                                    server.type === "sse"
+                                      ? "e.g. https://mcp.example.com/sse"
+                                      : "e.g. https://mcp.example.com/mcp"
+                                  }
+                                  value={server.url}
                                   onChange={(e) =>
                                     handleUpdateMcpServer(server.id, (s) => ({
                                       ...s,
-                                      command: e.target.value,
+                                      url: e.target.value,
                                     }))
                                   }
                                 />
                               </div>
+                            )}
+
+                            {server.type !== "stdio" && (
                               <div className="space-y-1">
-                                <div className="text-[10px] text-slate-500">
-                                  Arguments
+                                <div className="flex items-center justify-between">
+                                  <span className="text-[10px] text-slate-500">
+                                    HTTP headers
+                                  </span>
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      handleAddMcpEnvVar(server.id, "headers")
+                                    }
+                                    className="text-[10px] px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800"
+                                  >
+                                    + Add header
+                                  </button>
                                 </div>
-                                <input
-                                  type="text"
-                                  className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
-                                  placeholder="Space-separated arguments"
-                                  value={server.args.join(" ")}
-                                  onChange={(e) =>
-                                    handleChangeMcpServerArgs(
-                                      server.id,
-                                      e.target.value
-                                    )
-                                  }
-                                />
+                                {server.headers.length === 0 ? (
+                                  <div className="text-[11px] text-slate-500">
+                                    No headers configured.
+                                  </div>
+                                ) : (
+                                  <div className="space-y-1">
+                                    {server.headers.map((pair, headerIndex) => (
+                                      <div
+                                        key={`${server.id}-header-${headerIndex}`}
+                                        className="flex items-center gap-2"
+                                      >
+                                        <input
+                                          type="text"
+                                          className="w-40 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
+                                          placeholder="Header"
+                                          value={pair.key}
+                                          onChange={(e) =>
+                                            handleUpdateMcpEnvVar(
+                                              server.id,
+                                              headerIndex,
+                                              "key",
+                                              e.target.value,
+                                              "headers"
+                                            )
+                                          }
+                                        />
+                                        <input
+                                          type="text"
+                                          className="flex-1 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
+                                          placeholder="Value"
+                                          value={pair.value}
+                                          onChange={(e) =>
+                                            handleUpdateMcpEnvVar(
+                                              server.id,
+                                              headerIndex,
+                                              "value",
+                                              e.target.value,
+                                              "headers"
+                                            )
+                                          }
+                                        />
+                                        <button
+                                          type="button"
+                                          onClick={() =>
+                                            handleRemoveMcpEnvVar(
+                                              server.id,
+                                              headerIndex,
+                                              "headers"
+                                            )
+                                          }
+                                          className="text-[10px] px-1.5 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800"
+                                        >
+                                          ✕
+                                        </button>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
                               </div>
-                            </div>
+                            )}
 
-                            <div className="space-y-1">
+                            {server.type === "stdio" && (
+                              <>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                  <div className="space-y-1">
+                                    <div className="text-[10px] text-slate-500">
+                                      Command
+                                    </div>
+                                    <input
+                                      type="text"
+                                      className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
+                                      placeholder="e.g. node"
+                                      value={server.command}
+                                      onChange={(e) =>
+                                        handleUpdateMcpServer(server.id, (s) => ({
+                                          ...s,
+                                          command: e.target.value,
+                                        }))
+                                      }
+                                    />
+                                  </div>
+                                  <div className="space-y-1">
+                                    <div className="text-[10px] text-slate-500">
+                                      Arguments
+                                    </div>
+                                    <input
+                                      type="text"
+                                      className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
+                                      placeholder="Space-separated arguments"
+                                      value={server.args.join(" ")}
+                                      onChange={(e) =>
+                                        handleChangeMcpServerArgs(
+                                          server.id,
+                                          e.target.value
+                                        )
+                                      }
+                                    />
+                                  </div>
+                                </div>
+
+                                <div className="space-y-1">
+                                  <div className="flex items-center justify-between">
+                                    <span className="text-[10px] text-slate-500">
+                                      Environment / parameters
+                                    </span>
+                                    <button
+                                      type="button"
+                                      onClick={() => handleAddMcpEnvVar(server.id)}
+                                      className="text-[10px] px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800"
+                                    >
+                                      + Add parameter
+                                    </button>
+                                  </div>
+                                  {server.env.length === 0 ? (
+                                    <div className="text-[11px] text-slate-500">
+                                      No parameters configured.
+                                    </div>
+                                  ) : (
+                                    <div className="space-y-1">
+                                      {server.env.map((pair, envIndex) => (
+                                        <div
+                                          key={`${server.id}-env-${envIndex}`}
+                                          className="flex items-center gap-2"
+                                        >
+                                          <input
+                                            type="text"
+                                            className="w-40 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
+                                            placeholder="KEY"
+                                            value={pair.key}
+                                            onChange={(e) =>
+                                              handleUpdateMcpEnvVar(
+                                                server.id,
+                                                envIndex,
+                                                "key",
+                                                e.target.value
+                                              )
+                                            }
+                                          />
+                                          <input
+                                            type="text"
+                                            className="flex-1 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
+                                            placeholder="Value"
+                                            value={pair.value}
+                                            onChange={(e) =>
+                                              handleUpdateMcpEnvVar(
+                                                server.id,
+                                                envIndex,
+                                                "value",
+                                                e.target.value
+                                              )
+                                            }
+                                          />
+                                          <button
+                                            type="button"
+                                            onClick={() =>
+                                              handleRemoveMcpEnvVar(server.id, envIndex)
+                                            }
+                                            className="text-[10px] px-1.5 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800"
+                                          >
+                                            ✕
+                                          </button>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              </>
+                            )}
+
+                            <div className="space-y-1 pt-1 border-t border-slate-800">
                               <div className="flex items-center justify-between">
                                 <span className="text-[10px] text-slate-500">
-                                  Environment / parameters
+                                  Connection &amp; tools
                                 </span>
                                 <button
                                   type="button"
-                                  onClick={() => handleAddMcpEnvVar(server.id)}
-                                  className="text-[10px] px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800"
+                                  disabled={mcpTestingIds.has(server.id)}
+                                  onClick={() => void handleTestMcpServer(server)}
+                                  className="text-[10px] px-2 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800 disabled:opacity-50"
                                 >
-                                  + Add parameter
+                                  {mcpTestingIds.has(server.id)
+                                    ? "Testing…"
+                                    : "Test connection"}
                                 </button>
                               </div>
-                              {server.env.length === 0 ? (
-                                <div className="text-[11px] text-slate-500">
-                                  No parameters configured.
-                                </div>
-                              ) : (
-                                <div className="space-y-1">
-                                  {server.env.map((pair, envIndex) => (
-                                    <div
-                                      key={`${server.id}-env-${envIndex}`}
-                                      className="flex items-center gap-2"
-                                    >
-                                      <input
-                                        type="text"
-                                        className="w-40 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
-                                        placeholder="KEY"
-                                        value={pair.key}
-                                        onChange={(e) =>
-                                          handleUpdateMcpEnvVar(
-                                            server.id,
-                                            envIndex,
-                                            "key",
-                                            e.target.value
-                                          )
-                                        }
-                                      />
-                                      <input
-                                        type="text"
-                                        className="flex-1 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px]"
-                                        placeholder="Value"
-                                        value={pair.value}
-                                        onChange={(e) =>
-                                          handleUpdateMcpEnvVar(
-                                            server.id,
-                                            envIndex,
-                                            "value",
-                                            e.target.value
-                                          )
-                                        }
-                                      />
-                                      <button
-                                        type="button"
-                                        onClick={() =>
-                                          handleRemoveMcpEnvVar(server.id, envIndex)
-                                        }
-                                        className="text-[10px] px-1.5 py-0.5 rounded-md border border-slate-700 hover:bg-slate-800"
-                                      >
-                                        ✕
-                                      </button>
+                              {(() => {
+                                const result = mcpTestResults[server.id];
+                                if (!result) {
+                                  return (
+                                    <div className="text-[11px] text-slate-500">
+                                      Test the connection to discover the tools
+                                      this server exposes.
                                     </div>
-                                  ))}
-                                </div>
-                              )}
+                                  );
+                                }
+                                return (
+                                  <div className="space-y-1">
+                                    {result.ok ? (
+                                      <div className="text-[11px] text-emerald-400">
+                                        Connected
+                                        {result.serverInfo?.name
+                                          ? ` to ${result.serverInfo.name}`
+                                          : ""}
+                                        {result.serverInfo?.version
+                                          ? ` ${result.serverInfo.version}`
+                                          : ""}
+                                        {typeof result.durationMs === "number"
+                                          ? ` in ${result.durationMs} ms`
+                                          : ""}
+                                        .
+                                      </div>
+                                    ) : (
+                                      <div className="text-[11px] text-red-400">
+                                        {result.error || "Connection failed."}
+                                      </div>
+                                    )}
+                                    {result.serverInfo?.capabilities && (
+                                      <div className="text-[10px] text-slate-500">
+                                        Capabilities:{" "}
+                                        {Object.keys(
+                                          result.serverInfo.capabilities
+                                        ).join(", ") || "none"}
+                                      </div>
+                                    )}
+                                    {result.serverInfo?.instructions && (
+                                      <div className="text-[10px] text-slate-400 whitespace-pre-wrap">
+                                        {result.serverInfo.instructions}
+                                      </div>
+                                    )}
+                                    {result.ok &&
+                                      (result.tools && result.tools.length > 0 ? (
+                                        <div className="space-y-1">
+                                          {result.tools.map((tool) => (
+                                            <label
+                                              key={`${server.id}-tool-${tool.name}`}
+                                              className="flex items-start gap-2 text-[11px]"
+                                            >
+                                              <input
+                                                type="checkbox"
+                                                className="mt-0.5"
+                                                checked={
+                                                  !server.disabledTools.includes(
+                                                    tool.name
+                                                  )
+                                                }
+                                                onChange={(e) =>
+                                                  handleToggleMcpTool(
+                                                    server.id,
+                                                    tool.name,
+                                                    e.target.checked
+                                                  )
+                                                }
+                                              />
+                                              <span className="flex-1">
+                                                <span className="font-mono text-slate-200">
+                                                  {tool.name}
+                                                </span>
+                                                {tool.description && (
+                                                  <span className="block text-[10px] text-slate-500">
+                                                    {tool.description}
+                                                  </span>
+                                                )}
+                                              </span>
+                                              <select
+                                                title="Approval"
+                                                className="bg-slate-900 border border-slate-700 rounded-md px-1 py-0.5 text-[10px]"
+                                                value={
+                                                  server.toolPolicies[tool.name] ??
+                                                  DEFAULT_MCP_TOOL_POLICY
+                                                }
+                                                onChange={(e) =>
+                                                  handleChangeMcpToolPolicy(
+                                                    server.id,
+                                                    tool.name,
+                                                    e.target.value as ToolApprovalPolicy
+                                                  )
+                                                }
+                                              >
+                                                {TOOL_APPROVAL_POLICIES.map((policy) => (
+                                                  <option key={policy} value={policy}>
+                                                    {TOOL_APPROVAL_LABELS[policy]}
+                                                  </option>
+                                                ))}
+                                              </select>
+                                            </label>
+                                          ))}
+                                        </div>
+                                      ) : (
+                                        <div className="text-[11px] text-slate-500">
+                                          This server exposes no tools.
+                                        </div>
+                                      ))}
+                                    {result.stderr && (
+                                      <details className="text-[10px] text-slate-500">
+                                        <summary className="cursor-pointer">
+                                          Server stderr
+                                        </summary>
+                                        <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap bg-slate-900 border border-slate-800 rounded-md p-2">
+                                          {result.stderr}
+                                        </pre>
+                                      </details>
+                                    )}
+                                  </div>
+                                );
+                              })()}
                             </div>
                           </div>
                         ))}
@@ -2952,6 +6178,42 @@ export default function HomePage() {
                               </div>
                             </div>
 
+                            <div className="space-y-1">
+                              <div className="text-[10px] text-slate-500">
+                                Approval per method
+                              </div>
+                              <div className="flex flex-wrap gap-2">
+                                {domain.methods.map((method) => (
+                                  <label
+                                    key={`${domain.id}-policy-${method}`}
+                                    className="inline-flex items-center gap-1 text-[10px] text-slate-300"
+                                  >
+                                    <span>{method}</span>
+                                    <select
+                                      className="bg-slate-900 border border-slate-700 rounded-md px-1 py-0.5 text-[10px]"
+                                      value={
+                                        domain.methodPolicies[method] ??
+                                        defaultHttpMethodPolicy(method)
+                                      }
+                                      onChange={(e) =>
+                                        handleChangeWebClientMethodPolicy(
+                                          domain.id,
+                                          method,
+                                          e.target.value as ToolApprovalPolicy
+                                        )
+                                      }
+                                    >
+                                      {TOOL_APPROVAL_POLICIES.map((policy) => (
+                                        <option key={policy} value={policy}>
+                                          {TOOL_APPROVAL_LABELS[policy]}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+
                             <div className="space-y-1">
                               <div className="flex items-center justify-between">
                                 <div className="text-[10px] text-slate-500">
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import MessageMarkdown from "../../MessageMarkdown";
+import type { SharedConversation } from "@/lib/shareTypes";
+
+// Public, read-only view of a conversation shared with a link.
+export default function SharedConversationPage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const [shared, setShared] = useState<SharedConversation | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch(
+          `/api/share/${encodeURIComponent(params.token)}`
+        );
+        const body = await res.json().catch(() => null);
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(body?.error ?? "Could not load this conversation.");
+          return;
+        }
+        const data = body as SharedConversation;
+        setShared(data);
+        document.title = `${data.title} – Veilfire Chat`;
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Could not load this conversation.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [params.token]);
+
+  if (error) {
+    return (
+      <main className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-sm text-slate-400">{error}</div>
+      </main>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <main className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-sm text-slate-500">Loading…</div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-3xl mx-auto px-4 py-6 text-sm">
+      <header className="mb-6 border-b border-slate-800 pb-3">
+        <h1 className="text-lg font-semibold">{shared.title}</h1>
+        <div className="mt-1 text-xs text-slate-500">
+          {shared.modelId} · updated{" "}
+          {new Date(shared.updatedAt).toLocaleString()}
+          {shared.expiresAt &&
+            ` · link expires ${new Date(shared.expiresAt).toLocaleString()}`}
+        </div>
+      </header>
+
+      <div className="space-y-3">
+        {shared.messages.length === 0 && (
+          <div className="text-xs text-slate-500">No messages yet.</div>
+        )}
+        {shared.messages.map((m) => (
+          <div
+            key={m.id}
+            className={`flex ${
+              m.role === "user" ? "justify-end" : "justify-start"
+            }`}
+          >
+            <div
+              className={`max-w-[80%] rounded-lg px-3 py-2 whitespace-pre-wrap ${
+                m.role === "user"
+                  ? "bg-sky-600 text-white"
+                  : m.role === "assistant"
+                  ? "bg-slate-800 text-slate-100"
+                  : "bg-amber-900/20 text-amber-100 border border-amber-700/40"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-3 mb-1 text-[10px] opacity-70">
+                <span className="font-medium">{m.role.toUpperCase()}</span>
+                <span>{new Date(m.createdAt).toLocaleString()}</span>
+              </div>
+              {m.role === "assistant" ? (
+                <div className="whitespace-normal">
+                  <MessageMarkdown content={m.content} />
+                </div>
+              ) : (
+                m.content
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <footer className="mt-8 text-center text-[11px] text-slate-600">
+        Shared read-only from Veilfire Chat
+      </footer>
+    </main>
+  );
+}
@@ -0,0 +1,45 @@
+import { randomUUID } from "crypto";
+import type { ChatMessage, UploadedFile } from "./chatTypes";
+
+const ATTACHMENTS_INTRO =
+  "The user has uploaded the following files. Use these as context where possible:";
+const FILE_SEPARATOR = "\n\n---\n\n";
+
+// Describe the files attached to a user turn in a system message that is
+// stored just before it.
+export function buildAttachmentsMessage(
+  attachments: UploadedFile[]
+): ChatMessage {
+  const summaryLines = attachments.map((f) => {
+    const base = `File: ${f.name} (${f.type || "unknown"}, ${Math.round(
+      (f.size || 0) / 1024
+    )} KB)`;
+    if (f.textPreview) {
+      return `${base}\nPreview:\n${f.textPreview}`;
+    }
+    return `${base}\n(Content not extracted in this MVP.)`;
+  });
+  return {
+    id: randomUUID(),
+    role: "system",
+    content: `${ATTACHMENTS_INTRO}\n\n${summaryLines.join(FILE_SEPARATOR)}`,
+    createdAt: Date.now(),
+  };
+}
+
+export function isAttachmentsMessage(message: ChatMessage): boolean {
+  return (
+    message.role === "system" && message.content.startsWith(ATTACHMENTS_INTRO)
+  );
+}
+
+// The attachments message with only the name, type and size of each file.
+export function stripFilePreviews(content: string): string {
+  const body = content.slice(ATTACHMENTS_INTRO.length).trim();
+  const files = body
+    .split(FILE_SEPARATOR)
+    .map((entry) => entry.split("\n")[0])
+    // A preview may itself contain the separator.
+    .filter((line) => line.startsWith("File: "));
+  return `${ATTACHMENTS_INTRO}\n\n${files.join("\n")}`;
+}
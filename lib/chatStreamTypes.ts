@@ -0,0 +1,101 @@
+import type { ChatMessage, ContextSummary } from "./chatTypes";
+
+// Events emitted by POST /api/chat as newline-delimited JSON
+// (Content-Type: application/x-ndjson). Each line is one event.
+
+export interface ChatTextDeltaEvent {
+  type: "text_delta";
+  text: string;
+}
+
+export interface ChatToolCallStartedEvent {
+  type: "tool_call_started";
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  startedAt: number;
+}
+
+export interface ChatToolCallResultEvent {
+  type: "tool_call_result";
+  id: string;
+  name: string;
+  ok: boolean;
+  result: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ChatScratchpadUpdatedEvent {
+  type: "scratchpad_updated";
+  content: string;
+}
+
+// The summarize context strategy created or refreshed the conversation's
+// summary before this run.
+export interface ChatContextSummaryUpdatedEvent {
+  type: "context_summary_updated";
+  summary: ContextSummary;
+}
+
+// The user's turn as stored in the conversation, preceded by the system
+// message describing its attachments if any. Emitted first so the client
+// can replace its optimistic copies with the persisted ids.
+export interface ChatMessagesPersistedEvent {
+  type: "messages_persisted";
+  messages: ChatMessage[];
+}
+
+export interface ChatUsageEvent {
+  type: "usage";
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// A tool call waiting for the user's decision.
+export interface PendingToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Short human-readable description, e.g. "POST api.example.com".
+  reason: string;
+}
+
+// The run stopped before executing `calls`. It is stored server-side and
+// continues when the client posts { resumeRunId, decisions } to /api/chat.
+// No "done" event follows.
+export interface ChatApprovalRequiredEvent {
+  type: "approval_required";
+  runId: string;
+  conversationId: string | null;
+  calls: PendingToolCall[];
+  // Reply text produced so far.
+  content: string;
+}
+
+export interface ChatErrorEvent {
+  type: "error";
+  message: string;
+}
+
+export interface ChatDoneEvent {
+  type: "done";
+  // Final persisted reply. May differ from the concatenated deltas when
+  // textual tool invocations were stripped after streaming.
+  content: string;
+  // Id of the assistant message appended to the conversation.
+  messageId: string;
+}
+
+export type ChatStreamEvent =
+  | ChatTextDeltaEvent
+  | ChatToolCallStartedEvent
+  | ChatToolCallResultEvent
+  | ChatScratchpadUpdatedEvent
+  | ChatContextSummaryUpdatedEvent
+  | ChatMessagesPersistedEvent
+  | ChatUsageEvent
+  | ChatApprovalRequiredEvent
+  | ChatErrorEvent
+  | ChatDoneEvent;
@@ -5,14 +5,39 @@ export interface ChatMessage {
   role: Role;
   content: string;
   createdAt: number;
+  // Message this one follows (null for a root). Edits and regenerations
+  // add siblings under the same parent. Unset on messages saved before
+  // branching, which follow the previous message in the list.
+  parentId?: string | null;
 }
 
-export type ContextStrategy = "full" | "lastN" | "approxTokens";
+export type ContextStrategy = "full" | "lastN" | "approxTokens" | "summarize";
+
+// "auto" derives the history budget from the model's context window; see
+// computeTokenBudget in lib/serverTokenUtils.ts.
+export type ContextBudgetMode = "manual" | "auto";
 
 export interface ContextConfig {
   strategy: ContextStrategy;
   lastN?: number;
+  // Token budget of the history for approxTokens and summarize. Ignored
+  // with budgetMode "auto".
   maxApproxTokens?: number;
+  // Unset means "manual".
+  budgetMode?: ContextBudgetMode;
+  // Tokens kept free for the reply with budgetMode "auto", also sent as
+  // the reply's max_tokens.
+  reservedOutputTokens?: number;
+}
+
+// Rolling summary of older messages kept by the "summarize" strategy; see
+// lib/contextSummary.ts.
+export interface ContextSummary {
+  content: string;
+  // Last message covered by the summary. Only valid on branches that
+  // contain it.
+  throughMessageId: string;
+  updatedAt: number;
 }
 
 export interface ModelConfig {
@@ -32,6 +57,9 @@ export interface ConversationSettings {
   context: ContextConfig;
   temperature: number;
   stream: boolean;
+  // Names of the tools offered to the model in this conversation. When
+  // unset every tool available to the user is offered.
+  enabledTools?: string[];
 }
 
 export interface UploadedFile {
@@ -42,12 +70,77 @@ export interface UploadedFile {
   textPreview?: string;
 }
 
-export interface Conversation {
+// How a conversation is filed in the sidebar. Unset fields mean no
+// folder, no tags, not pinned and not archived.
+export interface ConversationOrganization {
+  folder?: string | null;
+  tags?: string[];
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+// Folders and tags in use, returned by GET /api/conversations/labels.
+export interface ConversationLabels {
+  folders: string[];
+  tags: string[];
+}
+
+// Entry of the response of POST /api/conversations/bulk.
+export interface BulkConversationUpdate extends ConversationOrganization {
+  id: string;
+  version: number;
+}
+
+// Sidebar entry returned by GET /api/conversations. The messages are
+// loaded separately with GET /api/conversations/:id.
+export interface ConversationSummary extends ConversationOrganization {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  modelId: string;
+  forkedFrom?: ConversationForkSource;
+  deletedAt?: number | null;
+}
+
+// One page of the conversation list, pinned first and then newest first.
+// nextCursor is null on the last page.
+export interface ConversationSummaryPage {
+  conversations: ConversationSummary[];
+  nextCursor: string | null;
+}
+
+export interface ConversationForkSource {
+  conversationId: string;
+  // Last message copied into the fork.
+  messageId: string;
+  // Title of the source conversation when the fork was made.
+  title: string;
+}
+
+export interface Conversation extends ConversationOrganization {
   id: string;
   userId?: string;
   title: string;
   createdAt: number;
   updatedAt: number;
+  // Messages of every branch loaded so far; see lib/messageTree.ts.
   messages: ChatMessage[];
+  // Pass as `before` to GET /api/conversations/:id/messages to load older
+  // messages. Null once everything is loaded.
+  olderMessagesCursor?: string | null;
+  // Last message of the branch being shown and continued. When unset the
+  // last stored message is used.
+  activeLeafId?: string | null;
   settings: ConversationSettings;
+  // Incremented on every title/settings update and checked by
+  // PUT /api/conversations/:id. Documents created before versioning
+  // count as version 0.
+  version?: number;
+  // Set on conversations created by POST /api/conversations/:id/fork.
+  forkedFrom?: ConversationForkSource;
+  // When the conversation was moved to the trash; see lib/trash.ts.
+  deletedAt?: number | null;
+  contextSummary?: ContextSummary | null;
 }
@@ -0,0 +1,154 @@
+import type OpenAI from "openai";
+import type { ChatMessage, ContextSummary } from "./chatTypes";
+import type {
+  ContextPreview,
+  ContextPreviewMessage,
+  ContextPreviewRequest,
+} from "./contextPreviewTypes";
+import {
+  CONTEXT_SUMMARY_MESSAGE_ID,
+  contextSummaryMessage,
+  planSummarize,
+} from "./contextSummary";
+import {
+  applyContextStrategyServer,
+  applyTokenBudget,
+  computeTokenBudget,
+  countJsonTokens,
+  countMessageTokens,
+  countTokens,
+  trimToTokenLimit,
+} from "./serverTokenUtils";
+import { joinSystemParts, type SystemPromptPart } from "./systemPrompt";
+
+// Assemble what /api/chat would send, using the same system parts, tool
+// definitions, budget and trimming. A summary refresh is only planned.
+export function buildContextPreview({
+  request,
+  messages,
+  draftIds,
+  systemParts,
+  tools,
+  contextWindow,
+  summary,
+}: {
+  request: ContextPreviewRequest;
+  // Active path including the draft turn.
+  messages: ChatMessage[];
+  // Ids in `messages` that are not stored yet.
+  draftIds: Set<string>;
+  systemParts: SystemPromptPart[];
+  tools: OpenAI.ChatCompletionTool[];
+  contextWindow: number;
+  summary: ContextSummary | null;
+}): ContextPreview {
+  const { modelId, contextConfig } = request;
+  const combinedSystem = joinSystemParts(systemParts);
+
+  const tokenBudget =
+    contextConfig.budgetMode === "auto"
+      ? computeTokenBudget({
+          modelId,
+          contextWindow,
+          system: combinedSystem,
+          tools,
+          reservedOutputTokens: contextConfig.reservedOutputTokens,
+        })
+      : null;
+
+  let sent: ChatMessage[];
+  let summaryRefresh: ContextPreview["summaryRefresh"] = null;
+  if (contextConfig.strategy === "summarize") {
+    const plan = planSummarize({
+      modelId,
+      messages,
+      config: applyTokenBudget(contextConfig, tokenBudget),
+      summary,
+    });
+    sent = [
+      ...(plan.current ? [contextSummaryMessage(plan.current)] : []),
+      ...messages.slice(plan.keepFrom),
+    ];
+    if (plan.foldFrom < plan.keepFrom) {
+      summaryRefresh = {
+        foldCount: plan.keepFrom - plan.foldFrom,
+        current: plan.current,
+      };
+    }
+    if (tokenBudget) {
+      sent = trimToTokenLimit(
+        sent,
+        tokenBudget.historyTokens,
+        modelId,
+        tokenBudget
+      );
+    }
+  } else {
+    sent = applyContextStrategyServer(
+      messages,
+      contextConfig,
+      modelId,
+      tokenBudget
+    );
+  }
+
+  const sentIds = new Set(sent.map((m) => m.id));
+  const summarySent = sent.find((m) => m.id === CONTEXT_SUMMARY_MESSAGE_ID);
+  const firstSent = messages.findIndex((m) => sentIds.has(m.id));
+  const ordered = summarySent
+    ? [
+        ...messages.slice(0, firstSent < 0 ? messages.length : firstSent),
+        summarySent,
+        ...(firstSent < 0 ? [] : messages.slice(firstSent)),
+      ]
+    : messages;
+  const messageTokens = countMessageTokens(ordered, modelId);
+  const previewMessages: ContextPreviewMessage[] = ordered.map((m, i) => ({
+    id: m.id,
+    role: m.role,
+    content: m.content,
+    tokens: messageTokens[i],
+    source:
+      m === summarySent ? "summary" : draftIds.has(m.id) ? "draft" : "history",
+    included: sentIds.has(m.id),
+  }));
+
+  const partTokens = countTokens(
+    systemParts.map((part) => part.content),
+    modelId
+  );
+  const systemTokens = combinedSystem
+    ? countJsonTokens([combinedSystem], modelId)
+    : 0;
+  const previewTools = tools.map((tool) => ({
+    name: tool.function.name,
+    definition: tool,
+    tokens: countJsonTokens([tool], modelId),
+  }));
+  const toolTokens = previewTools.reduce((a, t) => a + t.tokens, 0);
+
+  return {
+    modelId,
+    contextWindow,
+    contextConfig,
+    tokenBudget,
+    system: {
+      parts: systemParts.map((part, i) => ({
+        ...part,
+        tokens: partTokens[i],
+      })),
+      tokens: systemTokens,
+    },
+    messages: previewMessages,
+    tools: previewTools,
+    toolTokens,
+    summaryRefresh,
+    promptTokens:
+      systemTokens +
+      toolTokens +
+      previewMessages
+        .filter((m) => m.included)
+        .reduce((a, m) => a + m.tokens, 0),
+    reservedOutputTokens: tokenBudget?.reservedOutputTokens ?? null,
+  };
+}
@@ -0,0 +1,76 @@
+import type {
+  ContextConfig,
+  ContextSummary,
+  Role,
+  UploadedFile,
+} from "./chatTypes";
+import type { TokenBudget } from "./serverTokenUtils";
+import type { SystemPromptPartKind } from "./systemPrompt";
+
+// Request and response of POST /api/context/preview: what /api/chat would
+// send to the model for the next turn, without sending it.
+
+export interface ContextPreviewRequest {
+  conversationId: string;
+  modelId: string;
+  systemPrompt?: string;
+  reflectorPrompt?: string;
+  plannerPrompt?: string;
+  contextConfig: ContextConfig;
+  enabledTools?: string[];
+  // Draft of the next user turn, counted as if it were sent.
+  content?: string;
+  attachments?: UploadedFile[];
+  // Defaults to the conversation's active leaf, as in /api/chat.
+  parentId?: string | null;
+}
+
+export interface ContextPreviewSystemPart {
+  kind: SystemPromptPartKind;
+  content: string;
+  tokens: number;
+}
+
+export interface ContextPreviewMessage {
+  id: string;
+  role: Role;
+  content: string;
+  // Content plus the framing of the message.
+  tokens: number;
+  // "draft" is the turn being written, "summary" the summary of older
+  // messages sent by the summarize strategy.
+  source: "history" | "draft" | "summary";
+  // False for messages dropped by the context strategy.
+  included: boolean;
+}
+
+export interface ContextPreviewTool {
+  name: string;
+  // As sent in the request's `tools`.
+  definition: unknown;
+  tokens: number;
+}
+
+export interface ContextPreview {
+  modelId: string;
+  contextWindow: number;
+  contextConfig: ContextConfig;
+  // Set with budgetMode "auto".
+  tokenBudget: TokenBudget | null;
+  system: {
+    parts: ContextPreviewSystemPart[];
+    // The parts joined into the one system message.
+    tokens: number;
+  };
+  // The branch, root first, with the summary message where it is sent.
+  messages: ContextPreviewMessage[];
+  tools: ContextPreviewTool[];
+  toolTokens: number;
+  // Set when sending first folds `foldCount` messages into the summary,
+  // which needs a model call; `messages` shows the stored summary.
+  summaryRefresh: { foldCount: number; current: ContextSummary | null } | null;
+  // System message, included messages and tools.
+  promptTokens: number;
+  // Sent as max_tokens with the auto budget.
+  reservedOutputTokens: number | null;
+}
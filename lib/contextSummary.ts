@@ -0,0 +1,220 @@
+import type OpenAI from "openai";
+import type { ChatMessage, ContextConfig, ContextSummary } from "./chatTypes";
+import { countTokens } from "./serverTokenUtils";
+
+// The "summarize" context strategy. While the history fits in the budget
+// it is sent as is. Past the budget, older messages are condensed by the
+// model into a rolling summary stored on the conversation and sent as a
+// system message before the newest messages. Later turns reuse the
+// summary and only fold in messages that no longer fit, so the model is
+// called again only when the budget is exceeded once more.
+
+export const CONTEXT_SUMMARY_MESSAGE_ID = "context-summary";
+
+const DEFAULT_BUDGET = 6000;
+// Share of the budget kept verbatim after a refresh. The rest leaves room
+// for the summary and for the next turns before another refresh.
+const KEEP_RECENT_SHARE = 0.5;
+const MAX_SUMMARY_TOKENS = 1024;
+
+const SUMMARIZER_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant, used as memory once the older messages are no longer shown to the assistant.
+
+Update the existing summary with the new messages. Keep the user's goals and preferences, facts, names, numbers, decisions, code identifiers and open questions. Drop small talk and anything superseded. Write concise bullet points in the language of the conversation.
+
+Reply with the updated summary only.`;
+
+export interface SummarizeResult {
+  // Messages to send, starting with the summary message when one is used.
+  messages: ChatMessage[];
+  // Set when the summary was created or refreshed and should be stored.
+  updatedSummary: ContextSummary | null;
+}
+
+export function contextSummaryMessage(summary: ContextSummary): ChatMessage {
+  return {
+    id: CONTEXT_SUMMARY_MESSAGE_ID,
+    role: "system",
+    content: `Summary of the earlier conversation:\n${summary.content}`,
+    createdAt: summary.updatedAt,
+    parentId: null,
+  };
+}
+
+function formatTranscript(messages: ChatMessage[]): string {
+  return messages
+    .map((m) => `${m.role.toUpperCase()}: ${m.content}`)
+    .join("\n\n");
+}
+
+async function foldIntoSummary(
+  openai: OpenAI,
+  modelId: string,
+  previous: string,
+  messages: ChatMessage[],
+  maxTokens: number
+): Promise<string> {
+  const completion = await openai.chat.completions.create({
+    model: modelId,
+    temperature: 0,
+    max_tokens: maxTokens,
+    messages: [
+      { role: "system", content: SUMMARIZER_PROMPT },
+      {
+        role: "user",
+        content: [
+          "Existing summary:",
+          previous.trim() || "(none yet)",
+          "",
+          "New messages:",
+          formatTranscript(messages),
+        ].join("\n"),
+      },
+    ],
+  });
+  const content = completion.choices[0]?.message?.content?.trim();
+  if (!content) {
+    throw new Error("The model returned an empty summary");
+  }
+  return content;
+}
+
+// Which messages a turn sends verbatim and which are folded into the
+// summary first. Needs no model call, so it also serves previews.
+export interface SummarizePlan {
+  // Stored summary that covers the start of this branch.
+  current: ContextSummary | null;
+  // Messages from here on are sent verbatim.
+  keepFrom: number;
+  // Messages in [foldFrom, keepFrom) are folded into the summary before
+  // sending; none when the two are equal.
+  foldFrom: number;
+  budget: number;
+  messageTokens: number[];
+}
+
+export function planSummarize({
+  modelId,
+  messages,
+  config,
+  summary,
+}: {
+  modelId: string;
+  // Active path, root first.
+  messages: ChatMessage[];
+  config: ContextConfig;
+  summary: ContextSummary | null;
+}): SummarizePlan {
+  const budget = config.maxApproxTokens ?? DEFAULT_BUDGET;
+  const counts = countTokens(
+    [summary?.content ?? "", ...messages.map((m) => m.content)],
+    modelId
+  );
+  const summaryTokens = counts[0];
+  const messageTokens = counts.slice(1);
+  const sum = (from: number) =>
+    messageTokens.slice(from).reduce((a, b) => a + b, 0);
+
+  // A summary made on another branch does not apply to this one.
+  const coveredIndex = summary
+    ? messages.findIndex((m) => m.id === summary.throughMessageId)
+    : -1;
+  const current = coveredIndex >= 0 ? summary : null;
+  const firstUncovered = coveredIndex + 1;
+  const unchanged = {
+    current,
+    keepFrom: firstUncovered,
+    foldFrom: firstUncovered,
+    budget,
+    messageTokens,
+  };
+
+  if (!current && sum(0) <= budget) return unchanged;
+  if (current && summaryTokens + sum(firstUncovered) <= budget) {
+    return unchanged;
+  }
+
+  // Keep the newest messages verbatim (at least the last one) and fold
+  // the others into the summary. When nothing new can be folded in, the
+  // summary itself is what is too long and is sent as is.
+  let keepFrom = messages.length - 1;
+  let kept = messageTokens[keepFrom] ?? 0;
+  while (
+    keepFrom > firstUncovered &&
+    kept + messageTokens[keepFrom - 1] <= budget * KEEP_RECENT_SHARE
+  ) {
+    keepFrom -= 1;
+    kept += messageTokens[keepFrom];
+  }
+  if (keepFrom <= firstUncovered) return unchanged;
+
+  return { ...unchanged, keepFrom };
+}
+
+export async function applySummarizeStrategy({
+  openai,
+  modelId,
+  messages,
+  config,
+  summary,
+}: {
+  openai: OpenAI;
+  modelId: string;
+  // Active path, root first.
+  messages: ChatMessage[];
+  config: ContextConfig;
+  summary: ContextSummary | null;
+}): Promise<SummarizeResult> {
+  const plan = planSummarize({ modelId, messages, config, summary });
+  const { current, keepFrom, foldFrom, budget, messageTokens } = plan;
+
+  if (foldFrom === keepFrom) {
+    return {
+      messages: [
+        ...(current ? [contextSummaryMessage(current)] : []),
+        ...messages.slice(keepFrom),
+      ],
+      updatedSummary: null,
+    };
+  }
+
+  // Fold the messages in chunks that each fit in the budget, so a long
+  // backlog never makes a single oversized request.
+  const maxSummaryTokens = Math.min(
+    MAX_SUMMARY_TOKENS,
+    Math.max(256, Math.floor(budget / 4))
+  );
+  let content = current?.content ?? "";
+  let chunkStart = foldFrom;
+  while (chunkStart < keepFrom) {
+    let chunkEnd = chunkStart + 1;
+    let chunkTokens = messageTokens[chunkStart];
+    while (
+      chunkEnd < keepFrom &&
+      chunkTokens + messageTokens[chunkEnd] <= budget
+    ) {
+      chunkTokens += messageTokens[chunkEnd];
+      chunkEnd += 1;
+    }
+    content = await foldIntoSummary(
+      openai,
+      modelId,
+      content,
+      messages.slice(chunkStart, chunkEnd),
+      maxSummaryTokens
+    );
+    chunkStart = chunkEnd;
+  }
+
+  const updatedSummary: ContextSummary = {
+    content,
+    throughMessageId: messages[keepFrom - 1].id,
+    updatedAt: Date.now(),
+  };
+  return {
+    messages: [
+      contextSummaryMessage(updatedSummary),
+      ...messages.slice(keepFrom),
+    ],
+    updatedSummary,
+  };
+}
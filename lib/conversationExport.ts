@@ -0,0 +1,346 @@
+import type { Db } from "mongodb";
+import type { ChatMessage, Conversation } from "./chatTypes";
+import type { ChatLogDoc, ToolTraceRecord } from "./logTypes";
+import { loadAllMessages } from "./messageStore";
+import { getActivePath } from "./messageTree";
+import { loadScratchpad } from "./tools";
+
+export const EXPORT_FORMATS = ["md", "json", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return (
+    typeof value === "string" &&
+    EXPORT_FORMATS.includes(value as ExportFormat)
+  );
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+export interface ExportedMessage extends ChatMessage {
+  // Model that wrote an assistant reply, when its chat log is known.
+  modelId?: string;
+  toolTrace?: ToolTraceRecord[];
+}
+
+export interface ConversationExport {
+  exportedAt: number;
+  conversation: Omit<
+    Conversation,
+    "userId" | "messages" | "olderMessagesCursor" | "version"
+  >;
+  // Every message of every branch, oldest first; parentId links them.
+  messages: ExportedMessage[];
+  // Ids of the branch shown in the app, root first. Markdown and HTML
+  // exports contain this branch only.
+  activePath: string[];
+  scratchpad?: string;
+}
+
+export interface ExportOptions {
+  includeScratchpad: boolean;
+  includeToolTrace: boolean;
+}
+
+type ConversationDoc = Omit<Conversation, "id" | "messages"> & {
+  id: string;
+};
+
+export async function buildConversationExport(
+  db: Db,
+  userId: string,
+  conversationId: string,
+  options: ExportOptions
+): Promise<ConversationExport | null> {
+  const collection = db.collection<ConversationDoc>("conversations");
+  const doc =
+    (await collection.findOne({ userId, id: conversationId })) ??
+    (await collection.findOne({
+      id: conversationId,
+      userId: { $exists: false },
+    }));
+  if (!doc) return null;
+
+  const messages: ExportedMessage[] = await loadAllMessages(
+    db,
+    conversationId
+  );
+
+  // Models and tool calls are recorded on the chat log of each reply.
+  const replyIds = messages
+    .filter((m) => m.role === "assistant")
+    .map((m) => m.id);
+  if (replyIds.length > 0) {
+    const logs = await db
+      .collection<ChatLogDoc>("chat_logs")
+      .find(
+        { userId, conversationId, "response.messageId": { $in: replyIds } },
+        {
+          projection: {
+            modelId: 1,
+            "response.messageId": 1,
+            "response.toolTrace": 1,
+          },
+        }
+      )
+      .toArray();
+    const byMessageId = new Map(
+      logs.map((log) => [log.response.messageId, log])
+    );
+    for (const message of messages) {
+      const log = byMessageId.get(message.id);
+      if (!log) continue;
+      message.modelId = log.modelId;
+      if (options.includeToolTrace && log.response.toolTrace?.length) {
+        message.toolTrace = log.response.toolTrace;
+      }
+    }
+  }
+
+  return {
+    exportedAt: Date.now(),
+    conversation: {
+      id: doc.id,
+      title: doc.title,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+      activeLeafId: doc.activeLeafId ?? null,
+      settings: doc.settings,
+      forkedFrom: doc.forkedFrom,
+      folder: doc.folder ?? null,
+      tags: doc.tags ?? [],
+      pinned: doc.pinned ?? false,
+      archived: doc.archived ?? false,
+      deletedAt: doc.deletedAt ?? null,
+      contextSummary: doc.contextSummary ?? null,
+    },
+    messages,
+    activePath: getActivePath(messages, doc.activeLeafId).map((m) => m.id),
+    ...(options.includeScratchpad
+      ? { scratchpad: await loadScratchpad(db, userId, conversationId) }
+      : {}),
+  };
+}
+
+// A file name built from the title, made unique by the id.
+export function exportFileName(
+  conv: { id: string; title: string },
+  format: ExportFormat
+): string {
+  const slug =
+    conv.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "conversation";
+  return `${slug}-${conv.id.slice(0, 8)}.${format}`;
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function roleLabel(message: ChatMessage): string {
+  return message.role.charAt(0).toUpperCase() + message.role.slice(1);
+}
+
+function activeMessages(exp: ConversationExport): ExportedMessage[] {
+  const byId = new Map(exp.messages.map((m) => [m.id, m]));
+  return exp.activePath
+    .map((id) => byId.get(id))
+    .filter((m): m is ExportedMessage => m !== undefined);
+}
+
+// Metadata lines shared by the Markdown and HTML exports.
+function describeConversation(exp: ConversationExport): [string, string][] {
+  const { conversation: conv } = exp;
+  const settings = conv.settings;
+  const rows: [string, string][] = [
+    ["Created", formatTime(conv.createdAt)],
+    ["Updated", formatTime(conv.updatedAt)],
+    ["Exported", formatTime(exp.exportedAt)],
+    ["Model", settings.modelId],
+    ["Temperature", String(settings.temperature)],
+    ["Context strategy", settings.context.strategy],
+    ["Streaming", settings.stream ? "on" : "off"],
+  ];
+  if (settings.enabledTools) {
+    rows.push(["Enabled tools", settings.enabledTools.join(", ") || "none"]);
+  }
+  if (conv.folder) rows.push(["Folder", conv.folder]);
+  if (conv.tags && conv.tags.length > 0) {
+    rows.push(["Tags", conv.tags.join(", ")]);
+  }
+  if (conv.forkedFrom) rows.push(["Forked from", conv.forkedFrom.title]);
+  return rows;
+}
+
+function describeToolCall(call: ToolTraceRecord): string {
+  const status = call.ok ? "ok" : `failed: ${call.error ?? "error"}`;
+  return `${call.name}(${JSON.stringify(call.args)}) – ${status}, ${
+    call.durationMs
+  } ms`;
+}
+
+// A code fence longer than any backtick run inside `text`.
+function fenced(text: string, info = ""): string {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${info}\n${text}\n${fence}`;
+}
+
+function renderMarkdown(exp: ConversationExport): string {
+  const { settings } = exp.conversation;
+  const lines: string[] = [`# ${exp.conversation.title}`, ""];
+  for (const [label, value] of describeConversation(exp)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+  lines.push("");
+
+  const prompts: [string, string][] = [
+    ["System prompt", settings.systemPrompt],
+    ["Planner prompt", settings.plannerPrompt],
+    ["Reflector prompt", settings.reflectorPrompt],
+  ];
+  for (const [label, prompt] of prompts) {
+    if (!prompt) continue;
+    lines.push(`## ${label}`, "", fenced(prompt, "text"), "");
+  }
+
+  lines.push("## Transcript", "");
+  for (const message of activeMessages(exp)) {
+    const heading = [roleLabel(message), formatTime(message.createdAt)];
+    if (message.modelId) heading.push(message.modelId);
+    lines.push(`### ${heading.join(" · ")}`, "", message.content, "");
+    if (message.toolTrace && message.toolTrace.length > 0) {
+      lines.push("**Tool calls**", "");
+      for (const call of message.toolTrace) {
+        lines.push(`- \`${describeToolCall(call).replace(/`/g, "'")}\``);
+      }
+      lines.push("");
+    }
+  }
+
+  if (exp.scratchpad) {
+    lines.push("## Scratchpad", "", fenced(exp.scratchpad, "text"), "");
+  }
+
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLE = `
+body {
+  font-family: system-ui, sans-serif;
+  max-width: 860px;
+  margin: 2rem auto;
+  padding: 0 1rem;
+  color: #0f172a;
+}
+dl {
+  display: grid;
+  grid-template-columns: max-content 1fr;
+  gap: 0.25rem 1rem;
+  font-size: 0.9rem;
+}
+dt { color: #64748b; }
+pre, .content { white-space: pre-wrap; word-wrap: break-word; }
+pre { background: #f1f5f9; padding: 0.75rem; border-radius: 6px; }
+.message {
+  border: 1px solid #e2e8f0;
+  border-radius: 8px;
+  padding: 0.75rem 1rem;
+  margin: 1rem 0;
+}
+.message.user { background: #f0f9ff; }
+.message.system { background: #fffbeb; }
+.meta { font-size: 0.8rem; color: #64748b; margin-bottom: 0.5rem; }
+.tools { font-size: 0.8rem; color: #475569; margin-top: 0.75rem; }
+`;
+
+function renderHtml(exp: ConversationExport): string {
+  const { settings } = exp.conversation;
+  const parts: string[] = [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(exp.conversation.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(exp.conversation.title)}</h1>`,
+    "<dl>",
+    ...describeConversation(exp).map(
+      ([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`
+    ),
+    "</dl>",
+  ];
+
+  const prompts: [string, string][] = [
+    ["System prompt", settings.systemPrompt],
+    ["Planner prompt", settings.plannerPrompt],
+    ["Reflector prompt", settings.reflectorPrompt],
+  ];
+  for (const [label, prompt] of prompts) {
+    if (!prompt) continue;
+    parts.push(`<h2>${label}</h2>`, `<pre>${escapeHtml(prompt)}</pre>`);
+  }
+
+  parts.push("<h2>Transcript</h2>");
+  for (const message of activeMessages(exp)) {
+    const meta = [roleLabel(message), formatTime(message.createdAt)];
+    if (message.modelId) meta.push(message.modelId);
+    parts.push(
+      `<div class="message ${message.role}">`,
+      `<div class="meta">${escapeHtml(meta.join(" · "))}</div>`,
+      `<div class="content">${escapeHtml(message.content)}</div>`
+    );
+    if (message.toolTrace && message.toolTrace.length > 0) {
+      parts.push(
+        '<ul class="tools">',
+        ...message.toolTrace.map(
+          (call) =>
+            `<li><code>${escapeHtml(describeToolCall(call))}</code></li>`
+        ),
+        "</ul>"
+      );
+    }
+    parts.push("</div>");
+  }
+
+  if (exp.scratchpad) {
+    parts.push(
+      "<h2>Scratchpad</h2>",
+      `<pre>${escapeHtml(exp.scratchpad)}</pre>`
+    );
+  }
+
+  parts.push("</body>", "</html>");
+  return parts.join("\n");
+}
+
+export function renderConversationExport(
+  exp: ConversationExport,
+  format: ExportFormat
+): string {
+  if (format === "md") return renderMarkdown(exp);
+  if (format === "html") return renderHtml(exp);
+  return JSON.stringify(exp, null, 2);
+}
@@ -0,0 +1,431 @@
+import { randomUUID } from "crypto";
+import type { ChatMessage, Role } from "./chatTypes";
+import type { ImportBranchMode, ImportFormat } from "./importTypes";
+
+// Parsers for conversation exports of other chat tools. Each source
+// message becomes a node; nodes are then turned into ChatMessages with
+// fresh ids, keeping the tree (parentId) or only the current branch.
+
+export type SourceFormat = Exclude<ImportFormat, "auto">;
+
+export interface ParsedConversation {
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  activeLeafId: string | null;
+}
+
+export type ParseResult =
+  | { ok: true; conversation: ParsedConversation }
+  | { ok: false; title?: string; error: string };
+
+interface SourceNode {
+  sourceId: string;
+  // Nearest imported ancestor; null for a root.
+  parentSourceId: string | null;
+  role: Role;
+  content: string;
+  createdAt: number | null;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+// Seconds (ChatGPT), ISO strings (Claude) or milliseconds.
+function toMillis(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value < 1e11 ? Math.round(value * 1000) : Math.round(value);
+  }
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+export function detectImportFormat(data: unknown): SourceFormat | null {
+  const first = Array.isArray(data) ? data[0] : data;
+  if (!isObject(first)) return null;
+  if (isObject(first.mapping)) return "chatgpt";
+  if (Array.isArray(first.chat_messages)) return "claude";
+  if (typeof first.role === "string" || Array.isArray(first.messages)) {
+    return "openai";
+  }
+  return null;
+}
+
+function buildConversation(
+  nodes: SourceNode[],
+  leafSourceId: string | null,
+  branches: ImportBranchMode,
+  meta: { title: string; createdAt: number | null; updatedAt: number | null }
+): ParseResult {
+  if (nodes.length === 0) {
+    return { ok: false, title: meta.title, error: "No messages to import" };
+  }
+
+  const bySourceId = new Map(nodes.map((n) => [n.sourceId, n]));
+  const leaf =
+    (leafSourceId && bySourceId.get(leafSourceId)) || nodes[nodes.length - 1];
+
+  let kept = nodes;
+  if (branches === "flatten") {
+    const path: SourceNode[] = [];
+    const seen = new Set<string>();
+    let current: SourceNode | undefined = leaf;
+    while (current && !seen.has(current.sourceId)) {
+      seen.add(current.sourceId);
+      path.push(current);
+      current = current.parentSourceId
+        ? bySourceId.get(current.parentSourceId)
+        : undefined;
+    }
+    kept = path.reverse();
+  }
+
+  // Parents come before their children in `kept`, so times can be made
+  // non-decreasing along each branch in one pass.
+  const fallbackTime = meta.createdAt ?? Date.now();
+  const ids = new Map<string, string>();
+  const times = new Map<string, number>();
+  const messages: ChatMessage[] = kept.map((node) => {
+    const id = randomUUID();
+    ids.set(node.sourceId, id);
+    const parentId = node.parentSourceId
+      ? ids.get(node.parentSourceId) ?? null
+      : null;
+    const parentTime = node.parentSourceId
+      ? times.get(node.parentSourceId)
+      : undefined;
+    const createdAt = Math.max(
+      node.createdAt ?? parentTime ?? fallbackTime,
+      parentTime ?? 0
+    );
+    times.set(node.sourceId, createdAt);
+    return { id, role: node.role, content: node.content, createdAt, parentId };
+  });
+
+  const createdAt = meta.createdAt ?? messages[0].createdAt;
+  const lastTime = Math.max(...messages.map((m) => m.createdAt));
+  return {
+    ok: true,
+    conversation: {
+      title: meta.title || "Imported conversation",
+      createdAt,
+      updatedAt: Math.max(meta.updatedAt ?? lastTime, createdAt),
+      messages,
+      activeLeafId: ids.get(leaf.sourceId) ?? null,
+    },
+  };
+}
+
+// Orders nodes so that parents precede children, keeping source order
+// otherwise.
+function sortParentsFirst(nodes: SourceNode[]): SourceNode[] {
+  const known = new Set(nodes.map((n) => n.sourceId));
+  const children = new Map<string | null, SourceNode[]>();
+  for (const node of nodes) {
+    const parent =
+      node.parentSourceId && known.has(node.parentSourceId)
+        ? node.parentSourceId
+        : null;
+    node.parentSourceId = parent;
+    children.set(parent, [...(children.get(parent) ?? []), node]);
+  }
+  const ordered: SourceNode[] = [];
+  const visit = (parent: string | null) => {
+    for (const child of children.get(parent) ?? []) {
+      ordered.push(child);
+      visit(child.sourceId);
+    }
+  };
+  visit(null);
+  return ordered;
+}
+
+// ChatGPT conversations.json: every conversation is a tree in `mapping`.
+// Tool calls, tool results and hidden system messages are skipped; their
+// children attach to the nearest imported ancestor.
+function chatGptText(message: JsonObject): string {
+  const content = isObject(message.content) ? message.content : {};
+  if (Array.isArray(content.parts)) {
+    return content.parts
+      .map((part) =>
+        typeof part === "string"
+          ? part
+          : isObject(part) && typeof part.text === "string"
+          ? part.text
+          : ""
+      )
+      .filter(Boolean)
+      .join("\n");
+  }
+  return asString(content.text);
+}
+
+function parseChatGptConversation(
+  raw: unknown,
+  branches: ImportBranchMode
+): ParseResult {
+  if (!isObject(raw) || !isObject(raw.mapping)) {
+    return { ok: false, error: "Missing mapping" };
+  }
+  const title = asString(raw.title);
+  const mapping = raw.mapping;
+
+  const importable = (entry: unknown): SourceNode | null => {
+    if (!isObject(entry) || !isObject(entry.message)) return null;
+    const message = entry.message;
+    const author = isObject(message.author) ? message.author : {};
+    const role = author.role;
+    if (role !== "user" && role !== "assistant" && role !== "system") {
+      return null;
+    }
+    const recipient = asString(message.recipient);
+    const metadata = isObject(message.metadata) ? message.metadata : {};
+    if (
+      (recipient && recipient !== "all") ||
+      metadata.is_visually_hidden_from_conversation
+    ) {
+      return null;
+    }
+    const content = chatGptText(message);
+    if (!content.trim()) return null;
+    return {
+      sourceId: asString(entry.id) || asString(message.id),
+      parentSourceId: null,
+      role,
+      content,
+      createdAt: toMillis(message.create_time),
+    };
+  };
+
+  const nodes = new Map<string, SourceNode | null>();
+  for (const [key, entry] of Object.entries(mapping)) {
+    const node = importable(entry);
+    nodes.set(key, node ? { ...node, sourceId: key } : null);
+  }
+
+  // Nearest ancestor (or the node itself) that is imported.
+  const resolved = new Map<string, string | null>();
+  const nearestImported = (key: string | null): string | null => {
+    const chain: string[] = [];
+    let current = key;
+    let result: string | null = null;
+    while (current) {
+      if (resolved.has(current)) {
+        result = resolved.get(current) ?? null;
+        break;
+      }
+      chain.push(current);
+      if (nodes.get(current)) {
+        result = current;
+        break;
+      }
+      const entry = mapping[current];
+      current = isObject(entry) ? asString(entry.parent) || null : null;
+      if (current && chain.includes(current)) break;
+    }
+    for (const visited of chain) resolved.set(visited, result);
+    return result;
+  };
+
+  const list: SourceNode[] = [];
+  for (const [key, node] of Array.from(nodes.entries())) {
+    if (!node) continue;
+    const entry = mapping[key] as JsonObject;
+    node.parentSourceId = nearestImported(asString(entry.parent) || null);
+    list.push(node);
+  }
+
+  return buildConversation(
+    sortParentsFirst(list),
+    nearestImported(asString(raw.current_node) || null),
+    branches,
+    {
+      title,
+      createdAt: toMillis(raw.create_time),
+      updatedAt: toMillis(raw.update_time),
+    }
+  );
+}
+
+// Claude export: `chat_messages` in order. Newer exports link branches
+// with parent_message_uuid; older ones are a single thread.
+function claudeText(message: JsonObject): string {
+  const parts: string[] = [];
+  if (Array.isArray(message.content)) {
+    for (const block of message.content) {
+      if (isObject(block) && block.type === "text") {
+        parts.push(asString(block.text));
+      }
+    }
+  }
+  if (parts.length === 0) parts.push(asString(message.text));
+  for (const list of [message.attachments, message.files]) {
+    if (!Array.isArray(list)) continue;
+    for (const file of list) {
+      const name = isObject(file) ? asString(file.file_name) : "";
+      if (name) parts.push(`[Attached: ${name}]`);
+    }
+  }
+  return parts.filter(Boolean).join("\n\n");
+}
+
+function parseClaudeConversation(
+  raw: unknown,
+  branches: ImportBranchMode
+): ParseResult {
+  if (!isObject(raw) || !Array.isArray(raw.chat_messages)) {
+    return { ok: false, error: "Missing chat_messages" };
+  }
+  const title = asString(raw.name);
+  const linked = raw.chat_messages.some(
+    (m) => isObject(m) && typeof m.parent_message_uuid === "string"
+  );
+
+  const list: SourceNode[] = [];
+  let previous: string | null = null;
+  raw.chat_messages.forEach((message, index) => {
+    if (!isObject(message)) return;
+    const sender = message.sender;
+    const role: Role | null =
+      sender === "human" ? "user" : sender === "assistant" ? "assistant" : null;
+    const content = claudeText(message);
+    if (!role || !content.trim()) return;
+    const sourceId = asString(message.uuid) || `claude-${index}`;
+    list.push({
+      sourceId,
+      parentSourceId: linked
+        ? asString(message.parent_message_uuid) || null
+        : previous,
+      role,
+      content,
+      createdAt: toMillis(message.created_at),
+    });
+    previous = sourceId;
+  });
+
+  const ordered = sortParentsFirst(list);
+  // The newest message ends the branch that was shown last.
+  const leaf = ordered.reduce<SourceNode | null>(
+    (latest, node) =>
+      !latest || (node.createdAt ?? 0) >= (latest.createdAt ?? 0)
+        ? node
+        : latest,
+    null
+  );
+  return buildConversation(
+    ordered,
+    asString(raw.current_leaf_message_uuid) || leaf?.sourceId || null,
+    branches,
+    {
+      title,
+      createdAt: toMillis(raw.created_at),
+      updatedAt: toMillis(raw.updated_at),
+    }
+  );
+}
+
+// OpenAI-style messages: [{ role, content }], where content is a string or
+// a list of parts. Tool messages and bare tool calls are skipped.
+function openAiText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) =>
+      typeof part === "string"
+        ? part
+        : isObject(part) && typeof part.text === "string"
+        ? part.text
+        : ""
+    )
+    .filter(Boolean)
+    .join("\n");
+}
+
+function parseOpenAiConversation(
+  messages: unknown[],
+  title: string
+): ParseResult {
+  const start = Date.now();
+  const list: SourceNode[] = [];
+  messages.forEach((message, index) => {
+    if (!isObject(message)) return;
+    const role = message.role;
+    if (role !== "user" && role !== "assistant" && role !== "system") return;
+    const content = openAiText(message.content);
+    if (!content.trim()) return;
+    list.push({
+      sourceId: String(index),
+      parentSourceId: list.length > 0 ? list[list.length - 1].sourceId : null,
+      role,
+      content,
+      // Keeps the order when the conversation is paged by time.
+      createdAt: start + index,
+    });
+  });
+
+  const firstUser = list.find((n) => n.role === "user");
+  return buildConversation(list, null, "preserve", {
+    title:
+      title ||
+      (firstUser ? firstUser.content.trim().slice(0, 60) : "") ||
+      "Imported conversation",
+    createdAt: start,
+    updatedAt: null,
+  });
+}
+
+// One ParseResult per conversation found in `data`.
+export function parseImport(
+  data: unknown,
+  format: SourceFormat,
+  branches: ImportBranchMode,
+  title: string
+): ParseResult[] {
+  const entries = Array.isArray(data) ? data : [data];
+  const guard = (
+    raw: unknown,
+    parse: (raw: unknown) => ParseResult
+  ): ParseResult => {
+    try {
+      return parse(raw);
+    } catch (err) {
+      console.error("Failed to parse imported conversation", err);
+      return { ok: false, error: "Could not read this conversation" };
+    }
+  };
+
+  if (format === "chatgpt") {
+    return entries.map((raw) =>
+      guard(raw, (r) => parseChatGptConversation(r, branches))
+    );
+  }
+  if (format === "claude") {
+    return entries.map((raw) =>
+      guard(raw, (r) => parseClaudeConversation(r, branches))
+    );
+  }
+
+  // A bare message array is one conversation; objects with `messages`
+  // (possibly several in an array) are one each.
+  if (Array.isArray(data) && !data.some((e) => isObject(e) && e.messages)) {
+    return [guard(data, () => parseOpenAiConversation(data, title))];
+  }
+  return entries.map((raw) =>
+    guard(raw, (r) =>
+      isObject(r) && Array.isArray(r.messages)
+        ? parseOpenAiConversation(r.messages, asString(r.title) || title)
+        : { ok: false, error: "Expected a messages array" }
+    )
+  );
+}
@@ -0,0 +1,54 @@
+import type { ConversationOrganization } from "./chatTypes";
+
+export const MAX_TAGS_PER_CONVERSATION = 20;
+// Applies to folder names and tags.
+export const MAX_LABEL_LENGTH = 64;
+
+// Trimmed, non-empty and unique tags, or null when `value` is not an array
+// of strings.
+export function normalizeTags(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const tags: string[] = [];
+  for (const raw of value) {
+    if (typeof raw !== "string") return null;
+    const tag = raw.trim().slice(0, MAX_LABEL_LENGTH);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  }
+  return tags.slice(0, MAX_TAGS_PER_CONVERSATION);
+}
+
+// The organization fields present in a request body. Fields that are left
+// out are not returned, so they keep their stored value.
+export function parseOrganizationUpdate(
+  body: Record<string, unknown>
+): { update: ConversationOrganization } | { error: string } {
+  const update: ConversationOrganization = {};
+
+  if (body.folder !== undefined) {
+    if (body.folder !== null && typeof body.folder !== "string") {
+      return { error: "folder must be a string or null" };
+    }
+    const folder =
+      typeof body.folder === "string"
+        ? body.folder.trim().slice(0, MAX_LABEL_LENGTH)
+        : "";
+    update.folder = folder || null;
+  }
+
+  if (body.tags !== undefined) {
+    const tags = normalizeTags(body.tags);
+    if (!tags) return { error: "tags must be an array of strings" };
+    update.tags = tags;
+  }
+
+  for (const key of ["pinned", "archived"] as const) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") {
+      return { error: `${key} must be a boolean` };
+    }
+    update[key] = value;
+  }
+
+  return { update };
+}
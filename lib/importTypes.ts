@@ -0,0 +1,39 @@
+// Request and response of POST /api/conversations/import.
+
+// "auto" detects the format from the shape of `data`.
+export type ImportFormat = "auto" | "chatgpt" | "claude" | "openai";
+
+// "preserve" keeps every branch (edits, regenerations); "flatten" keeps
+// only the branch that was current in the source tool.
+export type ImportBranchMode = "preserve" | "flatten";
+
+export interface ImportRequest {
+  // Parsed contents of the export file.
+  data: unknown;
+  format?: ImportFormat;
+  branches?: ImportBranchMode;
+  // Title for a plain array of OpenAI-style messages.
+  title?: string;
+}
+
+export type ImportResult =
+  | {
+      index: number;
+      ok: true;
+      title: string;
+      conversationId: string;
+      messageCount: number;
+    }
+  | {
+      index: number;
+      ok: false;
+      title?: string;
+      error: string;
+    };
+
+export interface ImportResponse {
+  format: Exclude<ImportFormat, "auto">;
+  imported: number;
+  failed: number;
+  results: ImportResult[];
+}
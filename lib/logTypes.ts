@@ -1,4 +1,16 @@
 import type { ChatMessage, ContextConfig } from "./chatTypes";
+import type { TokenBudget } from "./serverTokenUtils";
+
+// A tool call made while producing a reply. Results are not kept.
+export interface ToolTraceRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  ok: boolean;
+  error?: string;
+  startedAt: number;
+  durationMs: number;
+}
 
 export interface ChatLog {
   id: string;
@@ -14,8 +26,29 @@ export interface ChatLog {
     contextConfig: ContextConfig;
     messages: ChatMessage[];
     trimmedMessages: ChatMessage[];
+    // Summary message sent before trimmedMessages by the summarize
+    // strategy.
+    contextSummary?: string;
+    // How the context window was shared out with budgetMode "auto".
+    tokenBudget?: TokenBudget;
   };
   response: {
     content: string;
+    // Assistant message appended to the conversation. Missing on logs
+    // written before it was recorded.
+    messageId?: string;
+    toolTrace?: ToolTraceRecord[];
+  };
+}
+
+// Stored form of a ChatLog. Messages of a conversation are referenced by
+// id since they live in the messages collection; logs written before that,
+// or without a conversation, embed them.
+export interface ChatLogDoc extends Omit<ChatLog, "id" | "request"> {
+  request: Omit<ChatLog["request"], "messages" | "trimmedMessages"> & {
+    messageIds?: string[];
+    trimmedMessageIds?: string[];
+    messages?: ChatMessage[];
+    trimmedMessages?: ChatMessage[];
   };
 }
@@ -1,17 +1,44 @@
-"use server";
-
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import { CallToolResultSchema, ListToolsResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolResultSchema,
+  GetPromptResultSchema,
+  ListPromptsResultSchema,
+  ListResourcesResultSchema,
+  ListToolsResultSchema,
+  ReadResourceResultSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export type McpTransportType = "stdio" | "sse" | "http";
 
-export interface McpServerDefinition {
+interface McpServerDefinitionBase {
   id: string;
   label: string;
+}
+
+// Local server spawned as a child process and spoken to over stdin/stdout.
+export interface McpStdioServerDefinition extends McpServerDefinitionBase {
+  type?: "stdio";
   command: string;
   args: string[];
   env?: Record<string, string>;
 }
 
+// Network server reached over the legacy HTTP+SSE transport ("sse") or the
+// Streamable HTTP transport ("http").
+export interface McpRemoteServerDefinition extends McpServerDefinitionBase {
+  type: "sse" | "http";
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type McpServerDefinition =
+  | McpStdioServerDefinition
+  | McpRemoteServerDefinition;
+
 export interface McpToolSummary {
   serverId: string;
   name: string;
@@ -19,66 +46,291 @@ export interface McpToolSummary {
   inputSchema?: unknown;
 }
 
+export interface McpResourceSummary {
+  serverId: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// Text or base64 blob content of a resource, as returned by resources/read.
+export interface McpResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPromptSummary {
+  serverId: string;
+  name: string;
+  description?: string;
+  arguments: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: "user" | "assistant";
+  text: string;
+}
+
 export interface McpCallOptions {
   serverId: string;
   name: string;
   args?: unknown;
 }
 
+// Prefix used for MCP tools exposed to the model. OpenAI-compatible
+// function names must match ^[a-zA-Z0-9_-]{1,64}$, so server ids and tool
+// names are sanitised and joined as mcp_<server>__<tool>.
+const MCP_FUNCTION_PREFIX = "mcp_";
+
+function sanitizeFunctionNamePart(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+export function toMcpFunctionName(serverId: string, toolName: string): string {
+  return `${MCP_FUNCTION_PREFIX}${sanitizeFunctionNamePart(
+    serverId
+  )}__${sanitizeFunctionNamePart(toolName)}`.slice(0, 64);
+}
+
+export function isMcpFunctionName(name: string): boolean {
+  return name.startsWith(MCP_FUNCTION_PREFIX);
+}
+
+export interface McpServerInfo {
+  name?: string;
+  version?: string;
+  capabilities?: unknown;
+  instructions?: string;
+}
+
+export interface McpClientManagerOptions {
+  // Pipe stdio servers' stderr into an in-memory buffer instead of the
+  // parent process, so it can be shown to the user (see getStderr).
+  captureStderr?: boolean;
+}
+
+const MAX_STDERR_CHARS = 16_000;
+
 interface McpClientHandle {
   client: Client;
-  transport: StdioClientTransport;
+  transport: Transport;
+}
+
+function isRemoteDefinition(
+  definition: McpServerDefinition
+): definition is McpRemoteServerDefinition {
+  return definition.type === "sse" || definition.type === "http";
+}
+
+function createTransport(
+  definition: McpServerDefinition,
+  captureStderr: boolean
+): Transport {
+  if (isRemoteDefinition(definition)) {
+    let url: URL;
+    try {
+      url = new URL(definition.url);
+    } catch {
+      throw new Error(`Invalid URL for MCP server ${definition.id}`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error(
+        `MCP server ${definition.id} must use an http or https URL`
+      );
+    }
+
+    const requestInit: RequestInit | undefined = definition.headers
+      ? { headers: definition.headers }
+      : undefined;
+
+    return definition.type === "sse"
+      ? new SSEClientTransport(url, { requestInit })
+      : new StreamableHTTPClientTransport(url, { requestInit });
+  }
+
+  const baseEnv: Record<string, string> = Object.fromEntries(
+    Object.entries(process.env).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string"
+    )
+  );
+
+  return new StdioClientTransport({
+    command: definition.command,
+    args: definition.args,
+    env: definition.env ? { ...baseEnv, ...definition.env } : baseEnv,
+    stderr: captureStderr ? "pipe" : "inherit",
+  });
+}
+
+async function closeTransport(transport: Transport): Promise<void> {
+  try {
+    await transport.close();
+  } catch {
+    // Swallow transport close errors.
+  }
 }
 
 class McpClientManager {
   private readonly definitions: Map<string, McpServerDefinition>;
   private readonly clients = new Map<string, McpClientHandle>();
+  private readonly pending = new Map<string, Promise<McpClientHandle>>();
+  // Transports of startups in `pending`, so close() can cancel them.
+  private readonly starting = new Map<string, Transport>();
+  private readonly lastUsedAt = new Map<string, number>();
+  private readonly stderrBuffers = new Map<string, string>();
+  private readonly options: McpClientManagerOptions;
 
-  constructor(definitions: McpServerDefinition[]) {
+  constructor(
+    definitions: McpServerDefinition[],
+    options: McpClientManagerOptions = {}
+  ) {
     this.definitions = new Map(definitions.map((d) => [d.id, d]));
+    this.options = options;
   }
 
   private async getOrCreateClient(serverId: string): Promise<McpClientHandle> {
+    this.lastUsedAt.set(serverId, Date.now());
+
     const existing = this.clients.get(serverId);
     if (existing) {
       return existing;
     }
 
+    // Concurrent callers share a single startup instead of spawning the
+    // same server twice.
+    const inFlight = this.pending.get(serverId);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const promise = this.createClient(serverId).finally(() => {
+      this.pending.delete(serverId);
+    });
+    this.pending.set(serverId, promise);
+    return promise;
+  }
+
+  private async createClient(serverId: string): Promise<McpClientHandle> {
     const definition = this.definitions.get(serverId);
     if (!definition) {
       throw new Error(`Unknown MCP server id: ${serverId}`);
     }
 
-    const baseEnv: Record<string, string> = Object.fromEntries(
-      Object.entries(process.env).filter(
-        (entry): entry is [string, string] => typeof entry[1] === "string"
-      )
+    const transport = createTransport(
+      definition,
+      !!this.options.captureStderr
     );
 
-    const transport = new StdioClientTransport({
-      command: definition.command,
-      args: definition.args,
-      env: definition.env ? { ...baseEnv, ...definition.env } : baseEnv,
-    });
+    if (this.options.captureStderr && transport instanceof StdioClientTransport) {
+      this.stderrBuffers.set(serverId, "");
+      transport.stderr?.on("data", (chunk: Buffer | string) => {
+        const previous = this.stderrBuffers.get(serverId) ?? "";
+        this.stderrBuffers.set(
+          serverId,
+          (previous + chunk.toString()).slice(-MAX_STDERR_CHARS)
+        );
+      });
+    }
 
     const client = new Client(
       { name: "veilfire-chat", version: "0.1.0" },
       { capabilities: {} }
     );
 
-    await client.connect(transport);
+    this.starting.set(serverId, transport);
+    try {
+      await client.connect(transport);
+    } finally {
+      if (this.starting.get(serverId) === transport) {
+        this.starting.delete(serverId);
+      } else {
+        // close() cancelled the startup while it was connecting.
+        await closeTransport(transport);
+        throw new Error(`MCP server ${serverId} was closed while starting`);
+      }
+    }
 
     const handle: McpClientHandle = { client, transport };
+
+    // When the child process exits or the connection drops, forget the
+    // handle so the next call restarts the server.
+    client.onclose = () => {
+      if (this.clients.get(serverId) === handle) {
+        this.clients.delete(serverId);
+      }
+    };
+
     this.clients.set(serverId, handle);
     return handle;
   }
 
-  async listTools(serverId: string): Promise<McpToolSummary[]> {
-    const { client } = await this.getOrCreateClient(serverId);
+  // Run an operation against a server, restarting it once if the
+  // connection was lost while the operation was in flight. Only read-only
+  // requests are replayed; with `replay: false` the lost operation fails
+  // and the server is restarted by the next call.
+  private async withClient<T>(
+    serverId: string,
+    operation: (client: Client) => Promise<T>,
+    { replay = true }: { replay?: boolean } = {}
+  ): Promise<T> {
+    const handle = await this.getOrCreateClient(serverId);
+    try {
+      return await operation(handle.client);
+    } catch (err) {
+      if (this.clients.get(serverId) === handle) {
+        throw err;
+      }
+      if (!replay) {
+        throw new Error(
+          `Lost the connection to MCP server ${serverId} during the request; it may or may not have completed.`
+        );
+      }
+      const restarted = await this.getOrCreateClient(serverId);
+      return operation(restarted.client);
+    }
+  }
 
-    const response = await client.request(
-      { method: "tools/list" },
-      ListToolsResultSchema
+  hasOpenClients(): boolean {
+    return this.clients.size > 0 || this.pending.size > 0;
+  }
+
+  // Ids of running servers that have not been used for at least idleMs.
+  getIdleServerIds(idleMs: number, now = Date.now()): string[] {
+    return Array.from(this.clients.keys()).filter(
+      (id) => now - (this.lastUsedAt.get(id) ?? 0) >= idleMs
+    );
+  }
+
+  // Captured stderr output of a stdio server (only with captureStderr).
+  getStderr(serverId: string): string {
+    return this.stderrBuffers.get(serverId) ?? "";
+  }
+
+  // Server identity and capabilities reported during initialize.
+  async getServerInfo(serverId: string): Promise<McpServerInfo> {
+    return this.withClient(serverId, async (client) => {
+      const version = client.getServerVersion();
+      return {
+        name: version?.name,
+        version: version?.version,
+        capabilities: client.getServerCapabilities(),
+        instructions: client.getInstructions(),
+      };
+    });
+  }
+
+  async listTools(serverId: string): Promise<McpToolSummary[]> {
+    const response = await this.withClient(serverId, (client) =>
+      client.request({ method: "tools/list" }, ListToolsResultSchema)
     );
 
     return response.tools.map((tool) => ({
@@ -105,53 +357,302 @@ class McpClientManager {
     return summaries;
   }
 
+  // Servers only answer resources/* and prompts/* when they advertised the
+  // capability during initialize; others would reply "method not found".
+  private async hasCapability(
+    serverId: string,
+    capability: "resources" | "prompts"
+  ): Promise<boolean> {
+    return this.withClient(
+      serverId,
+      async (client) => !!client.getServerCapabilities()?.[capability]
+    );
+  }
+
+  async listResources(serverId: string): Promise<McpResourceSummary[]> {
+    if (!(await this.hasCapability(serverId, "resources"))) {
+      return [];
+    }
+
+    const response = await this.withClient(serverId, (client) =>
+      client.request({ method: "resources/list" }, ListResourcesResultSchema)
+    );
+
+    return response.resources.map((resource) => ({
+      serverId,
+      uri: resource.uri,
+      name: resource.name,
+      description: resource.description,
+      mimeType: resource.mimeType,
+    }));
+  }
+
+  async listAllResources(): Promise<McpResourceSummary[]> {
+    const summaries: McpResourceSummary[] = [];
+
+    for (const serverId of Array.from(this.definitions.keys())) {
+      try {
+        summaries.push(...(await this.listResources(serverId)));
+      } catch {
+        // Ignore individual server failures when aggregating resources.
+      }
+    }
+
+    return summaries;
+  }
+
+  async readResource(
+    serverId: string,
+    uri: string
+  ): Promise<McpResourceContent[]> {
+    const response = await this.withClient(serverId, (client) =>
+      client.request(
+        { method: "resources/read", params: { uri } },
+        ReadResourceResultSchema
+      )
+    );
+
+    return response.contents.map((content) => ({
+      uri: content.uri,
+      mimeType: content.mimeType,
+      text: "text" in content ? content.text : undefined,
+      blob: "blob" in content ? content.blob : undefined,
+    }));
+  }
+
+  async listPrompts(serverId: string): Promise<McpPromptSummary[]> {
+    if (!(await this.hasCapability(serverId, "prompts"))) {
+      return [];
+    }
+
+    const response = await this.withClient(serverId, (client) =>
+      client.request({ method: "prompts/list" }, ListPromptsResultSchema)
+    );
+
+    return response.prompts.map((prompt) => ({
+      serverId,
+      name: prompt.name,
+      description: prompt.description,
+      arguments: (prompt.arguments ?? []).map((arg) => ({
+        name: arg.name,
+        description: arg.description,
+        required: arg.required,
+      })),
+    }));
+  }
+
+  async listAllPrompts(): Promise<McpPromptSummary[]> {
+    const summaries: McpPromptSummary[] = [];
+
+    for (const serverId of Array.from(this.definitions.keys())) {
+      try {
+        summaries.push(...(await this.listPrompts(serverId)));
+      } catch {
+        // Ignore individual server failures when aggregating prompts.
+      }
+    }
+
+    return summaries;
+  }
+
+  // Expand a prompt template. Non-text content (images, embedded
+  // resources) is flattened to a short placeholder or the resource text.
+  async getPrompt(
+    serverId: string,
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<{ description?: string; messages: McpPromptMessage[] }> {
+    const response = await this.withClient(serverId, (client) =>
+      client.request(
+        { method: "prompts/get", params: { name, arguments: args } },
+        GetPromptResultSchema
+      )
+    );
+
+    return {
+      description: response.description,
+      messages: response.messages.map((message) => {
+        const content = message.content;
+        let text: string;
+        if (content.type === "text") {
+          text = content.text;
+        } else if (content.type === "resource") {
+          text =
+            "text" in content.resource
+              ? content.resource.text
+              : `[resource: ${content.resource.uri}]`;
+        } else if (content.type === "resource_link") {
+          text = `[resource: ${content.uri}]`;
+        } else {
+          text = `[${content.type} content]`;
+        }
+        return { role: message.role, text };
+      }),
+    };
+  }
+
+  // Not replayed after a lost connection: the tool may have side effects
+  // and was approved to run once.
   async callTool(options: McpCallOptions): Promise<unknown> {
-    const { client } = await this.getOrCreateClient(options.serverId);
-
-    const result = await client.request(
-      {
-        method: "tools/call",
-        params: {
-          name: options.name,
-          args: options.args ?? {},
-        },
-      },
-      CallToolResultSchema
+    const result = await this.withClient(
+      options.serverId,
+      (client) =>
+        client.request(
+          {
+            method: "tools/call",
+            params: {
+              name: options.name,
+              arguments: (options.args ?? {}) as Record<string, unknown>,
+            },
+          },
+          CallToolResultSchema
+        ),
+      { replay: false }
     );
 
     return result;
   }
 
+  // Close running servers and cancel those still starting, so a stdio
+  // child that never finishes initialize is not left behind.
   async close(serverId?: string): Promise<void> {
-    const ids = serverId ? [serverId] : Array.from(this.clients.keys());
+    const ids = serverId
+      ? [serverId]
+      : Array.from(
+          new Set([...this.clients.keys(), ...this.starting.keys()])
+        );
 
     await Promise.all(
       ids.map(async (id) => {
+        const starting = this.starting.get(id);
+        if (starting) {
+          this.starting.delete(id);
+          await closeTransport(starting);
+        }
+
         const handle = this.clients.get(id);
         if (!handle) {
           return;
         }
+        this.clients.delete(id);
 
         try {
           await handle.client.close();
         } finally {
-          if (typeof (handle.transport as unknown as { close?: () => unknown }).close === "function") {
-            try {
-              await (handle.transport as unknown as { close: () => unknown }).close();
-            } catch {
-              // Swallow transport close errors.
-            }
-          }
+          await closeTransport(handle.transport);
         }
-
-        this.clients.delete(id);
       })
     );
   }
 }
 
-const DEFAULT_MCP_SERVERS: McpServerDefinition[] = [];
+const DEFAULT_MCP_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+interface McpPoolEntry {
+  manager: McpClientManager;
+  signature: string;
+}
+
+function definitionsSignature(definitions: McpServerDefinition[]): string {
+  return JSON.stringify(
+    [...definitions].sort((a, b) => a.id.localeCompare(b.id))
+  );
+}
+
+// Per-user pool of MCP client managers. Each user gets their own
+// McpClientManager (and therefore their own child processes), rebuilt when
+// their server definitions change. Servers left unused for longer than the
+// idle timeout are shut down and restarted lazily on the next call.
+class McpClientPool {
+  private readonly entries = new Map<string, McpPoolEntry>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly idleTimeoutMs: number) {}
+
+  getManager(
+    userId: string,
+    definitions: McpServerDefinition[]
+  ): McpClientManager {
+    const signature = definitionsSignature(definitions);
+    const existing = this.entries.get(userId);
+    if (existing && existing.signature === signature) {
+      return existing.manager;
+    }
+
+    if (existing) {
+      void existing.manager.close().catch((err) => {
+        console.error("Failed to close outdated MCP clients", err);
+      });
+    }
+
+    const manager = new McpClientManager(definitions);
+    this.entries.set(userId, { manager, signature });
+    this.ensureSweep();
+    return manager;
+  }
+
+  // Shut down all of a user's servers, e.g. after their MCP settings change.
+  async reset(userId: string): Promise<void> {
+    const existing = this.entries.get(userId);
+    if (!existing) return;
+    this.entries.delete(userId);
+    await existing.manager.close();
+  }
+
+  private ensureSweep() {
+    if (this.sweepTimer) return;
+    const interval = Math.max(
+      1000,
+      Math.min(60_000, Math.floor(this.idleTimeoutMs / 2))
+    );
+    this.sweepTimer = setInterval(() => {
+      void this.sweepIdle();
+    }, interval);
+    // Never keep the process alive just for the sweep.
+    if (typeof this.sweepTimer.unref === "function") {
+      this.sweepTimer.unref();
+    }
+  }
+
+  private async sweepIdle() {
+    const now = Date.now();
+    for (const [userId, entry] of Array.from(this.entries.entries())) {
+      const idleIds = entry.manager.getIdleServerIds(this.idleTimeoutMs, now);
+      for (const serverId of idleIds) {
+        try {
+          await entry.manager.close(serverId);
+        } catch (err) {
+          console.error(`Failed to stop idle MCP server ${serverId}`, err);
+        }
+      }
+      if (!entry.manager.hasOpenClients()) {
+        this.entries.delete(userId);
+      }
+    }
+
+    if (this.entries.size === 0 && this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
+
+function resolveIdleTimeoutMs(): number {
+  const raw = Number(process.env.MCP_IDLE_TIMEOUT_MS);
+  return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_MCP_IDLE_TIMEOUT_MS;
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var _mcpClientPool: McpClientPool | undefined;
+}
+
+// Keep a single process-wide pool: route handlers are bundled separately,
+// and hot reloads in development would otherwise orphan child processes.
+if (!global._mcpClientPool) {
+  global._mcpClientPool = new McpClientPool(resolveIdleTimeoutMs());
+}
 
-export const mcpClientManager = new McpClientManager(DEFAULT_MCP_SERVERS);
+export const mcpClientPool: McpClientPool = global._mcpClientPool;
 
-export { McpClientManager };
+export { McpClientManager, McpClientPool };
@@ -0,0 +1,130 @@
+import type { Db } from "mongodb";
+import {
+  mcpClientPool,
+  type McpClientManager,
+  type McpServerDefinition,
+  type McpTransportType,
+} from "./mcpClient";
+import type { ToolApprovalPolicy } from "./toolApproval";
+
+// MCP server definitions as stored per user in the `user_settings`
+// collection, and their conversion to McpClientManager definitions.
+
+export interface McpServerEnvVarDoc {
+  key: string;
+  value: string;
+}
+
+export interface McpServerConfigDoc {
+  id: string;
+  label?: string;
+  enabled?: boolean;
+  type?: McpTransportType;
+  command?: string;
+  args?: string[];
+  env?: McpServerEnvVarDoc[];
+  url?: string;
+  headers?: McpServerEnvVarDoc[];
+  // Tool names the user switched off; tools not listed here are enabled.
+  disabledTools?: string[];
+  // Approval policy per tool name; unlisted tools use
+  // DEFAULT_MCP_TOOL_POLICY.
+  toolPolicies?: Record<string, ToolApprovalPolicy>;
+}
+
+// Env vars and headers as sent by the client. Pairs with only a key or
+// only a value are kept so a half-filled row in the MCP tab survives a
+// save; pairs without a key are skipped when a server is started.
+export function normalizeKeyValuePairs(source: unknown): McpServerEnvVarDoc[] {
+  return Array.isArray(source)
+    ? source
+        .map((pair): McpServerEnvVarDoc | null => {
+          if (!pair || typeof pair !== "object") return null;
+          const p = pair as Record<string, unknown>;
+          const key = typeof p.key === "string" ? p.key : "";
+          const value = typeof p.value === "string" ? p.value : "";
+          if (!key && !value) return null;
+          return { key, value };
+        })
+        .filter((p): p is McpServerEnvVarDoc => p !== null)
+    : [];
+}
+
+export function normalizeToolNames(source: unknown): string[] {
+  return Array.isArray(source)
+    ? Array.from(
+        new Set(
+          source.filter(
+            (name): name is string => typeof name === "string" && !!name
+          )
+        )
+      )
+    : [];
+}
+
+function keyValuePairsToRecord(
+  pairs: McpServerEnvVarDoc[] | undefined
+): Record<string, string> | undefined {
+  if (!Array.isArray(pairs)) return undefined;
+  return Object.fromEntries(
+    pairs
+      .filter((pair) => !!pair && !!pair.key)
+      .map((pair) => [pair.key, pair.value ?? ""])
+  );
+}
+
+// Returns null when the definition is incomplete (no command for stdio, no
+// URL for remote transports).
+export function toMcpServerDefinition(
+  server: McpServerConfigDoc
+): McpServerDefinition | null {
+  if (!server || !server.id) return null;
+  const label = server.label || server.id;
+
+  if (server.type === "sse" || server.type === "http") {
+    if (!server.url) return null;
+    return {
+      id: server.id,
+      label,
+      type: server.type,
+      url: server.url,
+      headers: keyValuePairsToRecord(server.headers),
+    };
+  }
+
+  if (!server.command) return null;
+  return {
+    id: server.id,
+    label,
+    type: "stdio",
+    command: server.command,
+    args: Array.isArray(server.args) ? server.args : [],
+    env: keyValuePairsToRecord(server.env),
+  };
+}
+
+// Definitions for the user's enabled, complete servers.
+export function toMcpServerDefinitions(
+  servers: McpServerConfigDoc[] | undefined | null
+): McpServerDefinition[] {
+  if (!Array.isArray(servers)) return [];
+  return servers
+    .filter((server) => !!server && server.enabled)
+    .map(toMcpServerDefinition)
+    .filter((d): d is McpServerDefinition => d !== null);
+}
+
+// Pooled manager for the user's enabled servers, or null when MCP is off.
+export async function getUserMcpManager(
+  db: Db,
+  userId: string
+): Promise<McpClientManager | null> {
+  const settingsDoc = (await db.collection("user_settings").findOne({
+    userId,
+  })) as { mcpEnabled?: boolean; mcpServers?: McpServerConfigDoc[] } | null;
+
+  if (!settingsDoc?.mcpEnabled) return null;
+  const definitions = toMcpServerDefinitions(settingsDoc.mcpServers);
+  if (definitions.length === 0) return null;
+  return mcpClientPool.getManager(userId, definitions);
+}
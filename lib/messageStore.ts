@@ -0,0 +1,229 @@
+import type { Db, Filter } from "mongodb";
+import type { ChatMessage } from "./chatTypes";
+
+// Messages are stored one per document instead of embedded in their
+// conversation, which would eventually hit MongoDB's 16 MB document limit.
+// scripts/migrate-messages.mjs moves embedded arrays over.
+export const MESSAGES_COLLECTION = "messages";
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 200;
+
+// parentId is always set explicitly in this collection.
+export interface MessageDoc extends ChatMessage {
+  userId: string | null;
+  conversationId: string;
+}
+
+let indexesReady: Promise<void> | null = null;
+
+export function ensureMessageIndexes(db: Db): Promise<void> {
+  if (!indexesReady) {
+    indexesReady = db
+      .collection<MessageDoc>(MESSAGES_COLLECTION)
+      .createIndexes([
+        { key: { conversationId: 1, id: 1 }, unique: true },
+        { key: { conversationId: 1, createdAt: -1, id: -1 } },
+        { key: { conversationId: 1, parentId: 1 } },
+      ])
+      .then(() => undefined)
+      .catch((err) => {
+        indexesReady = null;
+        throw err;
+      });
+  }
+  return indexesReady;
+}
+
+function toChatMessage(doc: MessageDoc): ChatMessage {
+  return {
+    id: doc.id,
+    role: doc.role,
+    content: doc.content,
+    createdAt: doc.createdAt,
+    parentId: doc.parentId ?? null,
+  };
+}
+
+// Store messages of a conversation. The caller updates the conversation
+// document (see appendMessages).
+export async function insertMessages(
+  db: Db,
+  userId: string | null,
+  conversationId: string,
+  messages: ChatMessage[]
+): Promise<void> {
+  if (messages.length === 0) return;
+  await ensureMessageIndexes(db);
+  await db.collection<MessageDoc>(MESSAGES_COLLECTION).insertMany(
+    messages.map((m) => ({
+      id: m.id,
+      role: m.role,
+      content: m.content,
+      createdAt: m.createdAt,
+      parentId: m.parentId ?? null,
+      userId,
+      conversationId,
+    }))
+  );
+}
+
+// Store new messages, count them on the conversation and make `leafId`
+// the active leaf.
+export async function appendMessages(
+  db: Db,
+  userId: string,
+  conversationId: string,
+  messages: ChatMessage[],
+  leafId: string
+): Promise<void> {
+  await insertMessages(db, userId, conversationId, messages);
+  await db.collection("conversations").updateOne(
+    { userId, id: conversationId },
+    {
+      $inc: { messageCount: messages.length },
+      $set: { activeLeafId: leafId, updatedAt: Date.now() },
+    }
+  );
+}
+
+export async function messageExists(
+  db: Db,
+  conversationId: string,
+  messageId: string
+): Promise<boolean> {
+  const count = await db
+    .collection<MessageDoc>(MESSAGES_COLLECTION)
+    .countDocuments({ conversationId, id: messageId }, { limit: 1 });
+  return count > 0;
+}
+
+export async function findLatestMessageId(
+  db: Db,
+  conversationId: string
+): Promise<string | null> {
+  const latest = await db
+    .collection<MessageDoc>(MESSAGES_COLLECTION)
+    .find({ conversationId }, { projection: { id: 1 } })
+    .sort({ createdAt: -1, id: -1 })
+    .limit(1)
+    .next();
+  return latest ? latest.id : null;
+}
+
+// Messages from the root (or from `limit` messages above the leaf) down
+// to `leafId`, following parentId.
+export async function loadMessagePath(
+  db: Db,
+  conversationId: string,
+  leafId: string,
+  limit?: number
+): Promise<ChatMessage[]> {
+  const results = await db
+    .collection<MessageDoc>(MESSAGES_COLLECTION)
+    .aggregate<MessageDoc & { ancestors: (MessageDoc & { depth: number })[] }>(
+      [
+        { $match: { conversationId, id: leafId } },
+        {
+          $graphLookup: {
+            from: MESSAGES_COLLECTION,
+            startWith: "$parentId",
+            connectFromField: "parentId",
+            connectToField: "id",
+            as: "ancestors",
+            depthField: "depth",
+            restrictSearchWithMatch: { conversationId },
+            ...(limit !== undefined
+              ? { maxDepth: Math.max(0, limit - 2) }
+              : {}),
+          },
+        },
+      ]
+    )
+    .toArray();
+
+  const leaf = results[0];
+  if (!leaf) return [];
+  const ancestors = [...leaf.ancestors].sort((a, b) => b.depth - a.depth);
+  const path = [...ancestors, leaf].map(toChatMessage);
+  return limit !== undefined ? path.slice(-limit) : path;
+}
+
+// A page of messages from every branch, newest first in storage order but
+// returned oldest first. `before` is the id of the oldest message already
+// loaded; nextCursor is null when nothing older remains.
+export async function loadMessagePage(
+  db: Db,
+  conversationId: string,
+  before: string | null,
+  limit: number
+): Promise<{ messages: ChatMessage[]; nextCursor: string | null } | null> {
+  const collection = db.collection<MessageDoc>(MESSAGES_COLLECTION);
+
+  let filter: Filter<MessageDoc> = { conversationId };
+  if (before) {
+    const anchor = await collection.findOne({ conversationId, id: before });
+    if (!anchor) return null;
+    filter = {
+      conversationId,
+      $or: [
+        { createdAt: { $lt: anchor.createdAt } },
+        { createdAt: anchor.createdAt, id: { $lt: anchor.id } },
+      ],
+    };
+  }
+
+  // Fetch one extra message to know whether an older page follows.
+  const docs = await collection
+    .find(filter)
+    .sort({ createdAt: -1, id: -1 })
+    .limit(limit + 1)
+    .toArray();
+
+  const page = docs.slice(0, limit).reverse();
+  return {
+    messages: page.map(toChatMessage),
+    nextCursor: docs.length > limit && page.length > 0 ? page[0].id : null,
+  };
+}
+
+// Every message of every branch, oldest first. For exports; the UI pages
+// through loadMessagePage instead.
+export async function loadAllMessages(
+  db: Db,
+  conversationId: string
+): Promise<ChatMessage[]> {
+  const docs = await db
+    .collection<MessageDoc>(MESSAGES_COLLECTION)
+    .find({ conversationId })
+    .sort({ createdAt: 1, id: 1 })
+    .toArray();
+  return docs.map(toChatMessage);
+}
+
+export async function loadMessagesById(
+  db: Db,
+  conversationIds: string[],
+  messageIds: string[]
+): Promise<Map<string, ChatMessage>> {
+  const docs = await db
+    .collection<MessageDoc>(MESSAGES_COLLECTION)
+    .find({
+      conversationId: { $in: conversationIds },
+      id: { $in: messageIds },
+    })
+    .toArray();
+  return new Map(
+    docs.map((doc) => [`${doc.conversationId}:${doc.id}`, toChatMessage(doc)])
+  );
+}
+
+export async function deleteConversationMessages(
+  db: Db,
+  conversationIds: string[]
+): Promise<void> {
+  if (conversationIds.length === 0) return;
+  await db
+    .collection<MessageDoc>(MESSAGES_COLLECTION)
+    .deleteMany({ conversationId: { $in: conversationIds } });
+}
@@ -0,0 +1,94 @@
+import type { ChatMessage } from "./chatTypes";
+
+// Conversations store every message ever written as a flat list; the tree
+// is encoded by ChatMessage.parentId. Messages saved before branching
+// existed have no parentId and are chained in array order.
+export function buildParentMap(
+  messages: ChatMessage[]
+): Map<string, string | null> {
+  const parents = new Map<string, string | null>();
+  let previousId: string | null = null;
+  for (const message of messages) {
+    parents.set(
+      message.id,
+      message.parentId !== undefined ? message.parentId : previousId
+    );
+    previousId = message.id;
+  }
+  return parents;
+}
+
+// Messages from the root to `leafId`. Falls back to the last message when
+// the leaf is unset or unknown.
+export function getActivePath(
+  messages: ChatMessage[],
+  leafId: string | null | undefined
+): ChatMessage[] {
+  if (messages.length === 0) return [];
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const parents = buildParentMap(messages);
+
+  let current: string | null =
+    leafId && byId.has(leafId) ? leafId : messages[messages.length - 1].id;
+  const path: ChatMessage[] = [];
+  const seen = new Set<string>();
+  while (current && !seen.has(current)) {
+    const message = byId.get(current);
+    if (!message) break;
+    seen.add(current);
+    path.push(message);
+    current = parents.get(current) ?? null;
+  }
+  return path.reverse();
+}
+
+// For every message, the messages sharing its parent in creation order
+// (itself included). Edits and regenerations show up as extra siblings.
+export function buildSiblingMap(
+  messages: ChatMessage[]
+): Map<string, ChatMessage[]> {
+  const parents = buildParentMap(messages);
+  const groups = new Map<string | null, ChatMessage[]>();
+  for (const message of messages) {
+    const parentId = parents.get(message.id) ?? null;
+    const group = groups.get(parentId) ?? [];
+    group.push(message);
+    groups.set(parentId, group);
+  }
+  const siblings = new Map<string, ChatMessage[]>();
+  for (const message of messages) {
+    siblings.set(
+      message.id,
+      groups.get(parents.get(message.id) ?? null) ?? [message]
+    );
+  }
+  return siblings;
+}
+
+// The leaf reached from `messageId` by following the newest child at each
+// level. Used to pick the branch to show after switching siblings.
+export function findLatestLeaf(
+  messages: ChatMessage[],
+  messageId: string
+): string {
+  const parents = buildParentMap(messages);
+  const children = new Map<string, ChatMessage[]>();
+  for (const message of messages) {
+    const parentId = parents.get(message.id);
+    if (!parentId) continue;
+    const list = children.get(parentId) ?? [];
+    list.push(message);
+    children.set(parentId, list);
+  }
+
+  let current = messageId;
+  const seen = new Set<string>([current]);
+  while (true) {
+    const next = children.get(current);
+    if (!next || next.length === 0) return current;
+    const latest = next[next.length - 1].id;
+    if (seen.has(latest)) return current;
+    seen.add(latest);
+    current = latest;
+  }
+}
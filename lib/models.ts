@@ -1,4 +1,4 @@
-import type { ModelConfig } from "./chatTypes";
+import type { ConversationSettings, ModelConfig } from "./chatTypes";
 
 export const DEFAULT_MODELS: ModelConfig[] = [
   {
@@ -44,3 +44,39 @@ export const DEFAULT_MODELS: ModelConfig[] = [
     origin: "default",
   },
 ];
+
+// Assumed for models whose context length is unknown. Small enough for
+// most models available on OpenRouter.
+export const FALLBACK_CONTEXT_WINDOW = 32_000;
+
+// Tokens kept free for the reply with the auto context budget.
+export const DEFAULT_RESERVED_OUTPUT_TOKENS = 4096;
+
+// Context length of a model. Like the model picker, the defaults take
+// precedence over the user's models with the same id.
+export function resolveContextWindow(
+  modelId: string,
+  customModels: ModelConfig[] = []
+): number {
+  const model = [...DEFAULT_MODELS, ...customModels].find(
+    (m) => m.id === modelId && m.contextWindow
+  );
+  return model?.contextWindow ?? FALLBACK_CONTEXT_WINDOW;
+}
+
+// Settings of a new conversation (created, or imported from another tool).
+export function defaultConversationSettings(): ConversationSettings {
+  return {
+    modelId: "openai/gpt-4.1-mini",
+    systemPrompt: "You are a helpful assistant.",
+    reflectorPrompt: "",
+    plannerPrompt: "",
+    context: {
+      strategy: "full",
+      lastN: 20,
+      maxApproxTokens: 6000,
+    },
+    temperature: 0.2,
+    stream: true,
+  };
+}
@@ -0,0 +1,82 @@
+import type OpenAI from "openai";
+import type { Db } from "mongodb";
+import type { ChatMessage, ContextConfig } from "./chatTypes";
+import type { PendingToolCall } from "./chatStreamTypes";
+import type { ToolTraceRecord } from "./logTypes";
+
+// Runs of /api/chat paused until the user approves or rejects their tool
+// calls. A run is removed when it is resumed, when a new message is sent
+// to its conversation, or once it expires unanswered.
+export const PENDING_RUNS_COLLECTION = "pending_tool_runs";
+
+export const PENDING_RUN_TTL_DAYS = 7;
+
+export interface StepToolCall {
+  id: string;
+  name: string;
+  rawArgs?: string;
+}
+
+// The /api/chat request that started the run.
+export interface PendingToolRunRequest {
+  conversationId?: string;
+  modelId: string;
+  systemPrompt?: string;
+  reflectorPrompt?: string;
+  plannerPrompt?: string;
+  contextConfig: ContextConfig;
+  temperature?: number;
+  enabledTools?: string[];
+  // Active path including the user turn that started the run.
+  messages: ChatMessage[];
+}
+
+// Holds everything needed to continue the agent loop.
+export interface PendingToolRunDoc {
+  id: string;
+  userId: string;
+  conversationId: string | null;
+  createdAt: number;
+  // Missing on runs stored before runs expired.
+  expiresAt?: Date;
+  request: PendingToolRunRequest;
+  trimmedMessages: ChatMessage[];
+  state: {
+    step: number;
+    // History before the paused step's assistant message.
+    messages: OpenAI.ChatCompletionMessageParam[];
+    assistantMessage: OpenAI.ChatCompletionAssistantMessageParam;
+    calls: StepToolCall[];
+    completed: { id: string; result: unknown }[];
+    pending: PendingToolCall[];
+    legacyFunction: boolean;
+    finalContent: string;
+    toolsUsed: string[];
+    // Missing on runs stored before tool traces were logged.
+    toolTrace?: ToolTraceRecord[];
+  };
+}
+
+export function pendingRunExpiry(now = Date.now()): Date {
+  return new Date(now + PENDING_RUN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+let indexesReady: Promise<void> | null = null;
+
+// The TTL index lets MongoDB delete unanswered runs after expiresAt.
+export function ensurePendingRunIndexes(db: Db): Promise<void> {
+  if (!indexesReady) {
+    indexesReady = db
+      .collection<PendingToolRunDoc>(PENDING_RUNS_COLLECTION)
+      .createIndexes([
+        { key: { expiresAt: 1 }, expireAfterSeconds: 0 },
+        { key: { userId: 1, conversationId: 1 } },
+      ])
+      .then(() => undefined)
+      .catch((err) => {
+        indexesReady = null;
+        throw err;
+      });
+  }
+  return indexesReady;
+}
@@ -0,0 +1,26 @@
+import type { Role } from "./chatTypes";
+
+// Response of GET /api/search?q=.
+
+// Character range to highlight within a snippet (end is exclusive).
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchHit {
+  conversationId: string;
+  conversationTitle: string;
+  // Null when the conversation title matched.
+  messageId: string | null;
+  role?: Role;
+  snippet: string;
+  highlights: SearchHighlight[];
+  score: number;
+  createdAt: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchHit[];
+}
@@ -1,4 +1,5 @@
 import type { ChatMessage, ContextConfig } from "./chatTypes";
+import { DEFAULT_RESERVED_OUTPUT_TOKENS } from "./models";
 import {
   encoding_for_model,
   get_encoding,
@@ -6,6 +7,9 @@ import {
   type TiktokenModel,
 } from "tiktoken";
 
+// Role and separators framing each message in the chat format.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
 function normaliseModelId(modelId: string): string {
   if (!modelId) return "gpt-4o-mini";
   const parts = modelId.split("/");
@@ -13,25 +17,8 @@ function normaliseModelId(modelId: string): string {
   return last || "gpt-4o-mini";
 }
 
-export function applyContextStrategyServer(
-  messages: ChatMessage[],
-  config: ContextConfig,
-  modelId: string
-): ChatMessage[] {
-  if (config.strategy === "full") return messages;
-
-  if (config.strategy === "lastN") {
-    const n = config.lastN ?? 10;
-    return messages.slice(-n);
-  }
-
-  // approxTokens using real tiktoken counts
-  const maxTokens = config.maxApproxTokens ?? 4096;
-  const reversed = [...messages].reverse();
-  const result: ChatMessage[] = [];
-
+function withEncoder<T>(modelId: string, fn: (enc: Tiktoken) => T): T {
   const modelName = normaliseModelId(modelId);
-
   let enc: Tiktoken | null = null;
   try {
     try {
@@ -41,20 +28,161 @@ export function applyContextStrategyServer(
     } catch {
       enc = get_encoding("o200k_base");
     }
-
-    let total = 0;
-
-    for (const msg of reversed) {
-      const tokens = enc.encode(msg.content).length;
-      if (total + tokens > maxTokens) break;
-      result.push(msg);
-      total += tokens;
-    }
-
-    return result.reverse();
+    return fn(enc);
   } finally {
     if (enc) {
       enc.free();
     }
   }
 }
+
+// Real token counts of `texts` with the model's tiktoken encoding.
+export function countTokens(texts: string[], modelId: string): number[] {
+  return withEncoder(modelId, (enc) =>
+    texts.map((text) => enc.encode(text).length)
+  );
+}
+
+// Tokens of each message's content plus its framing.
+export function countMessageTokens(
+  messages: Pick<ChatMessage, "content">[],
+  modelId: string
+): number[] {
+  return countTokens(
+    messages.map((m) => m.content),
+    modelId
+  ).map((tokens) => tokens + MESSAGE_OVERHEAD_TOKENS);
+}
+
+// Tokens of OpenAI-format messages, tool definitions or anything else sent
+// as JSON. Counting the JSON includes tool calls and tool results, and
+// slightly overestimates plain text.
+export function countJsonTokens(values: unknown[], modelId: string): number {
+  return countTokens(
+    values.map((value) => JSON.stringify(value) ?? ""),
+    modelId
+  ).reduce((total, tokens) => total + tokens + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+// The first `maxTokens` tokens of `text`.
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  modelId: string
+): string {
+  return withEncoder(modelId, (enc) => {
+    const tokens = enc.encode(text);
+    if (tokens.length <= maxTokens) return text;
+    return new TextDecoder().decode(
+      enc.decode(tokens.slice(0, Math.max(0, maxTokens)))
+    );
+  });
+}
+
+// How a model's context window is shared out with budgetMode "auto".
+export interface TokenBudget {
+  contextWindow: number;
+  systemTokens: number;
+  toolTokens: number;
+  reservedOutputTokens: number;
+  // What is left for the conversation history.
+  historyTokens: number;
+}
+
+export function computeTokenBudget({
+  modelId,
+  contextWindow,
+  system,
+  tools,
+  reservedOutputTokens = DEFAULT_RESERVED_OUTPUT_TOKENS,
+}: {
+  modelId: string;
+  contextWindow: number;
+  system: string;
+  // Tool definitions as sent to the model.
+  tools: unknown[];
+  reservedOutputTokens?: number;
+}): TokenBudget {
+  // The reserve comes from the client and is also sent as max_tokens, so
+  // anything but a positive number falls back to the default.
+  const requested =
+    Number.isFinite(reservedOutputTokens) && reservedOutputTokens >= 1
+      ? Math.floor(reservedOutputTokens)
+      : DEFAULT_RESERVED_OUTPUT_TOKENS;
+  const reserved = Math.max(
+    1,
+    Math.min(requested, Math.floor(contextWindow / 2))
+  );
+  const systemTokens = system ? countJsonTokens([system], modelId) : 0;
+  const toolTokens = tools.length > 0 ? countJsonTokens(tools, modelId) : 0;
+  return {
+    contextWindow,
+    systemTokens,
+    toolTokens,
+    reservedOutputTokens: reserved,
+    historyTokens: Math.max(
+      0,
+      contextWindow - reserved - systemTokens - toolTokens
+    ),
+  };
+}
+
+// The newest messages whose content tokens add up to at most `maxTokens`.
+// Against a budget of the model's window (`budget` set) each message's
+// framing is counted too; a manual limit counts content only.
+export function trimToTokenLimit(
+  messages: ChatMessage[],
+  maxTokens: number,
+  modelId: string,
+  budget: TokenBudget | null = null
+): ChatMessage[] {
+  const counts = budget
+    ? countMessageTokens(messages, modelId)
+    : countTokens(
+        messages.map((m) => m.content),
+        modelId
+      );
+  let total = 0;
+  let start = messages.length;
+  while (start > 0 && total + counts[start - 1] <= maxTokens) {
+    start -= 1;
+    total += counts[start];
+  }
+  return messages.slice(start);
+}
+
+// With budgetMode "auto" the history limit of approxTokens and summarize
+// is what the model's window leaves; see computeTokenBudget.
+export function applyTokenBudget(
+  config: ContextConfig,
+  budget: TokenBudget | null
+): ContextConfig {
+  if (!budget) return config;
+  return { ...config, maxApproxTokens: budget.historyTokens };
+}
+
+// "summarize" is applied by lib/contextSummary.ts, which needs a model
+// call; here it falls back to the approxTokens trimming. With a budget,
+// full and lastN are also cut to what fits.
+export function applyContextStrategyServer(
+  messages: ChatMessage[],
+  config: ContextConfig,
+  modelId: string,
+  budget: TokenBudget | null = null
+): ChatMessage[] {
+  const cap = (selected: ChatMessage[]) =>
+    budget
+      ? trimToTokenLimit(selected, budget.historyTokens, modelId, budget)
+      : selected;
+
+  if (config.strategy === "full") return cap(messages);
+
+  if (config.strategy === "lastN") {
+    const n = config.lastN ?? 10;
+    return cap(messages.slice(-n));
+  }
+
+  // approxTokens using real tiktoken counts
+  const maxTokens = applyTokenBudget(config, budget).maxApproxTokens ?? 4096;
+  return trimToTokenLimit(messages, maxTokens, modelId, budget);
+}
@@ -0,0 +1,34 @@
+import type { ChatMessage } from "./chatTypes";
+
+// Read-only share links; see lib/shares.ts.
+
+export interface ShareOptions {
+  // System messages other than the note listing attached files.
+  includeSystemMessages: boolean;
+  // With false, attached files are listed by name only.
+  includeFilePreviews: boolean;
+}
+
+// Returned by GET and POST /api/conversations/:id/shares.
+export interface ConversationShare extends ShareOptions {
+  token: string;
+  conversationId: string;
+  createdAt: number;
+  // Null for links that do not expire.
+  expiresAt: number | null;
+}
+
+export interface CreateShareRequest extends Partial<ShareOptions> {
+  expiresInDays?: number | null;
+}
+
+// Returned by GET /api/share/:token. Messages are the branch being shown
+// in the app, root first.
+export interface SharedConversation {
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  modelId: string;
+  expiresAt: number | null;
+  messages: Pick<ChatMessage, "id" | "role" | "content" | "createdAt">[];
+}
@@ -0,0 +1,146 @@
+import { randomBytes } from "crypto";
+import type { Db } from "mongodb";
+import type { Conversation } from "./chatTypes";
+import { isAttachmentsMessage, stripFilePreviews } from "./attachments";
+import { findLatestMessageId, loadMessagePath } from "./messageStore";
+import type {
+  ConversationShare,
+  CreateShareRequest,
+  SharedConversation,
+} from "./shareTypes";
+
+// A share token gives anyone with the link read access to one
+// conversation until it expires or is revoked. The transcript is read
+// when the link is opened, so later messages are shared too.
+export const SHARES_COLLECTION = "conversation_shares";
+
+export const MAX_SHARE_EXPIRY_DAYS = 365;
+export const MAX_SHARES_PER_CONVERSATION = 20;
+
+export interface ShareDoc extends ConversationShare {
+  userId: string;
+}
+
+let indexesReady: Promise<void> | null = null;
+
+export function ensureShareIndexes(db: Db): Promise<void> {
+  if (!indexesReady) {
+    indexesReady = db
+      .collection<ShareDoc>(SHARES_COLLECTION)
+      .createIndexes([
+        { key: { token: 1 }, unique: true },
+        { key: { userId: 1, conversationId: 1 } },
+      ])
+      .then(() => undefined)
+      .catch((err) => {
+        indexesReady = null;
+        throw err;
+      });
+  }
+  return indexesReady;
+}
+
+export function toConversationShare(doc: ShareDoc): ConversationShare {
+  return {
+    token: doc.token,
+    conversationId: doc.conversationId,
+    createdAt: doc.createdAt,
+    expiresAt: doc.expiresAt ?? null,
+    includeSystemMessages: doc.includeSystemMessages,
+    includeFilePreviews: doc.includeFilePreviews,
+  };
+}
+
+export function parseCreateShareRequest(
+  body: CreateShareRequest
+):
+  | { options: Omit<ShareDoc, "token" | "userId" | "conversationId"> }
+  | { error: string } {
+  const { expiresInDays } = body;
+  if (
+    expiresInDays !== undefined &&
+    expiresInDays !== null &&
+    (typeof expiresInDays !== "number" ||
+      !Number.isFinite(expiresInDays) ||
+      expiresInDays <= 0 ||
+      expiresInDays > MAX_SHARE_EXPIRY_DAYS)
+  ) {
+    return {
+      error: `expiresInDays must be a positive number of at most ${MAX_SHARE_EXPIRY_DAYS}`,
+    };
+  }
+  for (const key of ["includeSystemMessages", "includeFilePreviews"] as const) {
+    if (body[key] !== undefined && typeof body[key] !== "boolean") {
+      return { error: `${key} must be a boolean` };
+    }
+  }
+
+  const now = Date.now();
+  return {
+    options: {
+      createdAt: now,
+      expiresAt: expiresInDays ? now + expiresInDays * 86_400_000 : null,
+      includeSystemMessages: body.includeSystemMessages ?? false,
+      includeFilePreviews: body.includeFilePreviews ?? false,
+    },
+  };
+}
+
+export function createShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+type ConversationDoc = Omit<Conversation, "id" | "messages"> & {
+  id: string;
+};
+
+// The shared transcript, or null when the token is unknown, revoked or
+// expired, or the conversation is in the trash.
+export async function loadSharedConversation(
+  db: Db,
+  token: string
+): Promise<SharedConversation | null> {
+  const share = await db
+    .collection<ShareDoc>(SHARES_COLLECTION)
+    .findOne({ token });
+  if (!share || (share.expiresAt !== null && share.expiresAt <= Date.now())) {
+    return null;
+  }
+
+  const conv = await db.collection<ConversationDoc>("conversations").findOne({
+    userId: share.userId,
+    id: share.conversationId,
+    deletedAt: null,
+  });
+  if (!conv) return null;
+
+  const leafId =
+    conv.activeLeafId ?? (await findLatestMessageId(db, conv.id));
+  const path = leafId ? await loadMessagePath(db, conv.id, leafId) : [];
+
+  const messages = path
+    .filter(
+      (m) =>
+        share.includeSystemMessages ||
+        m.role !== "system" ||
+        isAttachmentsMessage(m)
+    )
+    .map((m) => ({
+      id: m.id,
+      role: m.role,
+      content:
+        !share.includeFilePreviews && isAttachmentsMessage(m)
+          ? stripFilePreviews(m.content)
+          : m.content,
+      createdAt: m.createdAt,
+    }));
+
+  return {
+    title: conv.title,
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+    modelId: conv.settings.modelId,
+    expiresAt: share.expiresAt,
+    messages,
+  };
+}
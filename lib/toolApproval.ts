@@ -0,0 +1,33 @@
+// Approval policies for tool calls made by the model in /api/chat.
+//   auto – run immediately
+//   ask  – pause the run until the user approves or rejects the call
+//   deny – never run; the model receives a refusal as the tool result
+export type ToolApprovalPolicy = "auto" | "ask" | "deny";
+
+export const TOOL_APPROVAL_POLICIES: ToolApprovalPolicy[] = [
+  "auto",
+  "ask",
+  "deny",
+];
+
+export function isToolApprovalPolicy(
+  value: unknown
+): value is ToolApprovalPolicy {
+  return (
+    typeof value === "string" &&
+    TOOL_APPROVAL_POLICIES.includes(value as ToolApprovalPolicy)
+  );
+}
+
+// Policy for MCP tools the user has not configured explicitly.
+export const DEFAULT_MCP_TOOL_POLICY: ToolApprovalPolicy = "ask";
+
+// Policy for http_request when the matching Web Client domain has no
+// explicit policy for the method: read-only methods run directly, methods
+// that may change remote state ask first.
+export function defaultHttpMethodPolicy(method: string): ToolApprovalPolicy {
+  const upper = method.toUpperCase();
+  return upper === "GET" || upper === "HEAD" || upper === "OPTIONS"
+    ? "auto"
+    : "ask";
+}
@@ -0,0 +1,107 @@
+import type OpenAI from "openai";
+import { mcpClientPool } from "../mcpClient";
+import { toMcpServerDefinitions } from "../mcpConfig";
+import { httpRequestTool } from "./httpRequest";
+import { loadMcpTools } from "./mcp";
+import { getScratchpadTool, setScratchpadTool } from "./scratchpad";
+import { getUtcTimeTool } from "./time";
+import type {
+  ToolApproval,
+  ToolContext,
+  ToolDefinition,
+  ToolUserSettings,
+} from "./types";
+
+export type {
+  HttpMethod,
+  ToolApproval,
+  ToolContext,
+  ToolDefinition,
+  ToolUserSettings,
+  WebClientDomainDoc,
+  WebClientSecretDoc,
+} from "./types";
+export { loadScratchpad, saveScratchpad } from "./scratchpad";
+
+// Built-in tools offered to the model in /api/chat. To add a tool, define
+// it in its own module and list it here; the tools array, the system
+// prompt guidance and dispatch are all derived from this list.
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  getScratchpadTool,
+  setScratchpadTool,
+  getUtcTimeTool,
+  httpRequestTool,
+];
+
+export function isToolAvailable(
+  tool: ToolDefinition,
+  settings: ToolUserSettings | null
+): boolean {
+  return (tool.requiredSettings ?? []).every((key) => !!settings?.[key]);
+}
+
+// Everything the user could be offered: the built-ins whose required
+// settings are on, plus the enabled tools of their MCP servers.
+export async function loadAvailableTools(
+  userId: string,
+  settings: ToolUserSettings | null
+): Promise<ToolDefinition[]> {
+  const tools = BUILTIN_TOOLS.filter((tool) => isToolAvailable(tool, settings));
+  if (settings?.mcpEnabled) {
+    const definitions = toMcpServerDefinitions(settings.mcpServers);
+    if (definitions.length > 0) {
+      const manager = mcpClientPool.getManager(userId, definitions);
+      tools.push(...(await loadMcpTools(manager, settings)));
+    }
+  }
+  return tools;
+}
+
+export function toOpenAITools(
+  tools: ToolDefinition[]
+): OpenAI.ChatCompletionTool[] {
+  return tools.map((tool) => ({
+    type: "function" as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+// Guidance for the system prompt, one paragraph per distinct text, in the
+// order the tools are listed. Null when no tool has guidance.
+export function buildToolGuidance(tools: ToolDefinition[]): string | null {
+  const parts = Array.from(
+    new Set(
+      tools
+        .map((tool) => tool.guidance)
+        .filter((g): g is string => !!g)
+    )
+  );
+  return parts.length > 0 ? parts.join("\n\n") : null;
+}
+
+export function resolveToolApproval(
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  settings: ToolUserSettings | null
+): ToolApproval {
+  return tool.resolveApproval
+    ? tool.resolveApproval(args, settings)
+    : { policy: "auto", reason: tool.name };
+}
+
+export async function runTool(
+  tools: Map<string, ToolDefinition>,
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<unknown> {
+  const tool = tools.get(name);
+  if (!tool) {
+    return { error: `Unknown tool: ${name}` };
+  }
+  return tool.execute(args, context);
+}
@@ -0,0 +1,108 @@
+import type { Db } from "mongodb";
+import type { ToolDefinition } from "./types";
+
+export const SCRATCHPAD_COLLECTION = "scratchpads";
+
+const MAX_SCRATCHPAD_CHARS = 8000;
+
+const SCRATCHPAD_GUIDANCE = [
+  "You have access to the following tools for per-conversation working memory (scratchpad):",
+  "- get_scratchpad(): retrieve the current scratchpad text.",
+  "- set_scratchpad({ content }): replace the scratchpad text.",
+  "Use these tools to store intermediate plans or notes instead of emitting them directly to the user.",
+  "You must use the scratchpad tool on every call to plan, store notes, and organize work instead of emitting long planning text to the user.",
+  "Always keep the scratchpad updated with relevant information for context and continuity.",
+].join("\n");
+
+export async function loadScratchpad(
+  db: Db,
+  userId: string,
+  conversationId: string | null
+): Promise<string> {
+  if (!conversationId) return "";
+  const existing = (await db
+    .collection(SCRATCHPAD_COLLECTION)
+    .findOne({ userId, conversationId })) as { content?: string | null } | null;
+  return (
+    (existing && typeof existing.content === "string"
+      ? existing.content
+      : "") || ""
+  );
+}
+
+// Store the scratchpad (truncated) and return the stored text. Without a
+// conversation nothing is persisted.
+export async function saveScratchpad(
+  db: Db,
+  userId: string,
+  conversationId: string | null,
+  content: string
+): Promise<string> {
+  if (!conversationId) return content;
+  const normalized = content.slice(0, MAX_SCRATCHPAD_CHARS);
+  await db.collection(SCRATCHPAD_COLLECTION).updateOne(
+    { userId, conversationId },
+    {
+      $set: {
+        userId,
+        conversationId,
+        content: normalized,
+        updatedAt: Date.now(),
+      },
+    },
+    { upsert: true }
+  );
+  return normalized;
+}
+
+export const getScratchpadTool: ToolDefinition = {
+  name: "get_scratchpad",
+  description:
+    "Get the current scratchpad content for this conversation (ephemeral working memory).",
+  group: "Scratchpad",
+  parameters: {
+    type: "object",
+    properties: {},
+    required: [],
+  },
+  guidance: SCRATCHPAD_GUIDANCE,
+  async execute(_args, context) {
+    const content = await loadScratchpad(
+      context.db,
+      context.userId,
+      context.conversationId
+    );
+    context.onScratchpadChange(content);
+    return { content };
+  },
+};
+
+export const setScratchpadTool: ToolDefinition = {
+  name: "set_scratchpad",
+  description:
+    "Replace the scratchpad content for this conversation with new text.",
+  group: "Scratchpad",
+  parameters: {
+    type: "object",
+    properties: {
+      content: {
+        type: "string",
+        description:
+          "The full text to store in the scratchpad for this conversation.",
+      },
+    },
+    required: ["content"],
+  },
+  guidance: SCRATCHPAD_GUIDANCE,
+  async execute(args, context) {
+    const raw = (typeof args.content === "string" && args.content) || "";
+    const stored = await saveScratchpad(
+      context.db,
+      context.userId,
+      context.conversationId,
+      raw
+    );
+    context.onScratchpadChange(stored);
+    return { ok: true };
+  },
+};
@@ -0,0 +1,46 @@
+import type { ToolDefinition } from "./types";
+
+export const getUtcTimeTool: ToolDefinition = {
+  name: "get_utc_time",
+  description:
+    "Fetch the current UTC date/time JSON from timeapi.io. Use this whenever the user asks for the current time or date.",
+  group: "Time",
+  parameters: {
+    type: "object",
+    properties: {},
+    required: [],
+  },
+  guidance: [
+    "You also have access to a time tool:",
+    "- get_utc_time(): fetches the current UTC date/time JSON from https://www.timeapi.io/ for the UTC timezone.",
+    "Use this whenever the user asks for the current time or date.",
+    "",
+    "When you use get_utc_time, do not show raw JSON. Instead, respond in this format:",
+    "Current UTC time: <ISO timestamp from currentLocalTime> (UTC)",
+    "Additional details:",
+    "- Time zone: <timeZone>",
+    "- Daylight saving in region: <hasDayLightSaving>",
+    "- Daylight saving currently active: <isDayLightSavingActive>",
+  ].join("\n"),
+  async execute() {
+    try {
+      const res = await fetch(
+        "https://www.timeapi.io/api/timezone/zone?timeZone=UTC"
+      );
+      if (!res.ok) {
+        return {
+          error: `Failed to fetch time from timeapi.io: ${res.status}`,
+        };
+      }
+      const data = await res.json();
+      return {
+        provider: "timeapi.io",
+        payload: data,
+      };
+    } catch {
+      return {
+        error: "Exception while calling timeapi.io",
+      };
+    }
+  },
+};
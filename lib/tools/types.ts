@@ -0,0 +1,77 @@
+import type { Db } from "mongodb";
+import type { McpServerConfigDoc } from "../mcpConfig";
+import type { ToolApprovalPolicy } from "../toolApproval";
+
+export type HttpMethod =
+  | "GET"
+  | "HEAD"
+  | "OPTIONS"
+  | "POST"
+  | "PUT"
+  | "PATCH"
+  | "DELETE";
+
+export interface WebClientSecretDoc {
+  allowModelAccess?: boolean;
+  value?: string | null;
+}
+
+export interface WebClientDomainDoc {
+  id: string;
+  domain: string;
+  enabled?: boolean;
+  methods?: HttpMethod[];
+  // Approval policy per method; unlisted methods use
+  // defaultHttpMethodPolicy.
+  methodPolicies?: Partial<Record<HttpMethod, ToolApprovalPolicy>>;
+  secret?: WebClientSecretDoc;
+}
+
+// The parts of a user's `user_settings` document tools depend on.
+export interface ToolUserSettings {
+  mcpEnabled?: boolean;
+  mcpServers?: McpServerConfigDoc[];
+  webClientEnabled?: boolean;
+  webClientEnforceWhitelist?: boolean;
+  webClientAllowLocalNetwork?: boolean;
+  webClientDomains?: WebClientDomainDoc[];
+}
+
+export interface ToolContext {
+  userId: string;
+  conversationId: string | null;
+  db: Db;
+  settings: ToolUserSettings | null;
+  // Called with the scratchpad text whenever a tool reads or replaces it.
+  onScratchpadChange: (content: string) => void;
+}
+
+export interface ToolApproval {
+  policy: ToolApprovalPolicy;
+  // Short description of the call shown when asking for approval.
+  reason: string;
+}
+
+export interface ToolDefinition {
+  // Function name advertised to the model (^[a-zA-Z0-9_-]{1,64}$).
+  name: string;
+  description: string;
+  // Heading the tool is listed under when choosing tools per conversation.
+  group: string;
+  // JSON schema of the arguments object.
+  parameters: Record<string, unknown>;
+  // Added to the system prompt's tool guidance when the tool is offered.
+  // Tools sharing a guidance text contribute it once.
+  guidance?: string;
+  // Settings that must be truthy for the tool to be offered at all.
+  requiredSettings?: (keyof ToolUserSettings)[];
+  // Approval policy for a call; tools without one run automatically.
+  resolveApproval?: (
+    args: Record<string, unknown>,
+    settings: ToolUserSettings | null
+  ) => ToolApproval;
+  execute: (
+    args: Record<string, unknown>,
+    context: ToolContext
+  ) => Promise<unknown>;
+}
@@ -0,0 +1,78 @@
+import type { Db } from "mongodb";
+import { deleteConversationMessages } from "./messageStore";
+import { PENDING_RUNS_COLLECTION } from "./pendingRuns";
+import { SHARES_COLLECTION } from "./shares";
+import { SCRATCHPAD_COLLECTION } from "./tools/scratchpad";
+
+// Deleting a conversation only sets its deletedAt. It stays in the trash,
+// where it can be restored, until it is purged by hand or is older than
+// TRASH_RETENTION_DAYS.
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+function resolveTrashRetentionMs(): number {
+  const raw = Number(process.env.TRASH_RETENTION_DAYS);
+  const days =
+    Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_TRASH_RETENTION_DAYS;
+  return days * 24 * 60 * 60 * 1000;
+}
+
+// Permanently delete conversations of a user together with their
+// messages, scratchpads, chat logs, share links and runs waiting for tool
+// approval. Returns the number deleted.
+export async function purgeConversations(
+  db: Db,
+  userId: string,
+  conversationIds: string[]
+): Promise<number> {
+  if (conversationIds.length === 0) return 0;
+  const conversations = db.collection("conversations");
+  const owned = (
+    await conversations
+      .find(
+        { userId, id: { $in: conversationIds } },
+        { projection: { id: 1 } }
+      )
+      .toArray()
+  ).map((doc) => doc.id as string);
+  if (owned.length === 0) return 0;
+
+  const { deletedCount } = await conversations.deleteMany({
+    userId,
+    id: { $in: owned },
+  });
+  await Promise.all([
+    deleteConversationMessages(db, owned),
+    db
+      .collection(SCRATCHPAD_COLLECTION)
+      .deleteMany({ userId, conversationId: { $in: owned } }),
+    db
+      .collection("chat_logs")
+      .deleteMany({ userId, conversationId: { $in: owned } }),
+    db
+      .collection(SHARES_COLLECTION)
+      .deleteMany({ userId, conversationId: { $in: owned } }),
+    db
+      .collection(PENDING_RUNS_COLLECTION)
+      .deleteMany({ userId, conversationId: { $in: owned } }),
+  ]);
+  return deletedCount;
+}
+
+// Purge everything in the user's trash, or only what has been there
+// longer than the retention period.
+export async function purgeTrash(
+  db: Db,
+  userId: string,
+  { expiredOnly }: { expiredOnly: boolean }
+): Promise<number> {
+  const deletedAt = expiredOnly
+    ? { $lt: Date.now() - resolveTrashRetentionMs() }
+    : { $ne: null };
+  const ids = (
+    await db
+      .collection("conversations")
+      .find({ userId, deletedAt }, { projection: { id: 1 } })
+      .toArray()
+  ).map((doc) => doc.id as string);
+  return purgeConversations(db, userId, ids);
+}
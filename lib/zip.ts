@@ -0,0 +1,135 @@
+import { deflateRawSync } from "zlib";
+
+// Minimal ZIP writer used for data exports. Files are compressed and
+// handed to `write` one at a time, so only the current file is held in
+// memory. No ZIP64 support: at most 65535 files and 4 GiB in total.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, in local time as ZIP tools expect.
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  time: number;
+  date: number;
+  offset: number;
+}
+
+// Bit 11: file names are UTF-8.
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+const VERSION = 20;
+
+export class ZipWriter {
+  private readonly entries: ZipEntry[] = [];
+  private offset = 0;
+
+  constructor(private readonly write: (chunk: Uint8Array) => void) {}
+
+  addFile(
+    name: string,
+    content: string | Uint8Array,
+    modifiedAt = new Date()
+  ) {
+    const data =
+      typeof content === "string" ? Buffer.from(content, "utf8") : content;
+    const compressed = deflateRawSync(data);
+    const { time, date } = dosDateTime(modifiedAt);
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf8"),
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      time,
+      date,
+      offset: this.offset,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(UTF8_FLAG, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    this.emit(header);
+    this.emit(entry.name);
+    this.emit(compressed);
+    this.entries.push(entry);
+  }
+
+  // Write the central directory. No files can be added afterwards.
+  finish() {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(VERSION, 6);
+      header.writeUInt16LE(UTF8_FLAG, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number, attributes: all empty.
+      header.writeUInt32LE(entry.offset, 42);
+      this.emit(header);
+      this.emit(entry.name);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    this.emit(end);
+  }
+
+  private emit(chunk: Uint8Array) {
+    this.write(chunk);
+    this.offset += chunk.length;
+  }
+}
@@ -0,0 +1,123 @@
+// Moves messages embedded in conversation documents into the `messages`
+// collection (one document per message) and removes the embedded arrays.
+// Safe to run more than once; already copied messages are left as they are.
+//
+//   node --env-file=.env.local scripts/migrate-messages.mjs
+//
+// Uses MONGODB_URI, MONGODB_DB and the optional MONGO_AUTH / MONGO_USER /
+// MONGO_PASS variables, like the app.
+
+import { MongoClient } from "mongodb";
+
+const uri = process.env.MONGODB_URI;
+if (!uri) {
+  console.error('Invalid/Missing environment variable: "MONGODB_URI"');
+  process.exit(1);
+}
+
+const DB_NAME = process.env.MONGODB_DB || "veilfire_chat";
+
+const options = {};
+const mongoAuthFlag = process.env.MONGO_AUTH ?? process.env.mongo_auth;
+if (mongoAuthFlag && mongoAuthFlag.toLowerCase() === "true") {
+  const username = process.env.MONGO_USER ?? process.env.mongo_user;
+  const password = process.env.MONGO_PASS ?? process.env.mongo_pass;
+  if (username && password) {
+    options.auth = { username, password };
+  }
+}
+
+// Messages saved before branching have no parentId and follow the
+// previous message (see lib/messageTree.ts).
+function withExplicitParents(messages) {
+  let previousId = null;
+  return messages.map((m) => {
+    const parentId = m.parentId !== undefined ? m.parentId : previousId;
+    previousId = m.id;
+    return { ...m, parentId };
+  });
+}
+
+async function main() {
+  const client = await new MongoClient(uri, options).connect();
+  try {
+    const db = client.db(DB_NAME);
+    const conversations = db.collection("conversations");
+    const messagesCollection = db.collection("messages");
+
+    await messagesCollection.createIndexes([
+      { key: { conversationId: 1, id: 1 }, unique: true },
+      { key: { conversationId: 1, createdAt: -1, id: -1 } },
+      { key: { conversationId: 1, parentId: 1 } },
+    ]);
+
+    const cursor = conversations.find(
+      { messages: { $exists: true } },
+      { projection: { _id: 1, id: 1, userId: 1, messages: 1, activeLeafId: 1 } }
+    );
+
+    let migratedConversations = 0;
+    let migratedMessages = 0;
+
+    for await (const conv of cursor) {
+      const messages = withExplicitParents(
+        Array.isArray(conv.messages) ? conv.messages : []
+      );
+
+      if (messages.length > 0) {
+        await messagesCollection.bulkWrite(
+          messages.map((m) => ({
+            updateOne: {
+              filter: { conversationId: conv.id, id: m.id },
+              update: {
+                $setOnInsert: {
+                  id: m.id,
+                  role: m.role,
+                  content: m.content,
+                  createdAt: m.createdAt,
+                  parentId: m.parentId ?? null,
+                  userId: conv.userId ?? null,
+                  conversationId: conv.id,
+                },
+              },
+              upsert: true,
+            },
+          })),
+          { ordered: false }
+        );
+      }
+
+      const messageCount = await messagesCollection.countDocuments({
+        conversationId: conv.id,
+      });
+
+      await conversations.updateOne(
+        { _id: conv._id },
+        {
+          $set: {
+            messageCount,
+            // Keep showing the branch that was shown before.
+            activeLeafId:
+              conv.activeLeafId ??
+              (messages.length > 0 ? messages[messages.length - 1].id : null),
+          },
+          $unset: { messages: "" },
+        }
+      );
+
+      migratedConversations += 1;
+      migratedMessages += messages.length;
+    }
+
+    console.log(
+      `Migrated ${migratedMessages} messages from ${migratedConversations} conversations.`
+    );
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});